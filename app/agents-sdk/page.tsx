@@ -1,16 +1,62 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useConversation } from "@/lib/use-conversation";
+import { parseApiError, readApiError } from "@/lib/api-errors";
+import { getCitationNumbers } from "@/lib/citations";
+import CitedText from "@/components/cited-text";
+import SourcesDisplay from "@/components/sources-display";
+import type { ApiError } from "@/types/api";
+import type { ChatSource } from "@/types/chat";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
+  // Documents the answer's [n] citations refer to, sent after the answer
+  sources?: ChatSource[];
+  // Set on the assistant message when the request failed
+  error?: ApiError;
+}
+
+class ApiRequestError extends Error {
+  constructor(readonly apiError: ApiError) {
+    super(apiError.message);
+  }
 }
 
 export default function AgentsSDKPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Aborts the answer being streamed when the user presses Stop
+  const abortRef = useRef<AbortController | null>(null);
+  // Source chip to highlight after its citation is clicked
+  const [highlighted, setHighlighted] = useState<{
+    messageIndex: number;
+    citation: number;
+  } | null>(null);
+  const { restored, ensureConversation, startNewConversation } =
+    useConversation("agents-sdk");
+
+  // Show the conversation saved before the page was reloaded
+  useEffect(() => {
+    if (restored) {
+      setMessages(
+        restored.messages.map(({ role, content, sources }) => ({
+          role,
+          content,
+          sources,
+        }))
+      );
+    }
+  }, [restored]);
+
+  // Clear the highlighted source chip shortly after a citation is clicked
+  useEffect(() => {
+    if (!highlighted) return;
+    const timeoutId = setTimeout(() => setHighlighted(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [highlighted]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,22 +66,33 @@ export default function AgentsSDKPage() {
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
+    const abortController = new AbortController();
+    abortRef.current = abortController;
 
     setMessages((prev) => [...prev, { role: "assistant", content: "" }]);
 
     try {
+      const conversationId = await ensureConversation();
       const response = await fetch("/api/agents-sdk", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage],
+          messages: [...messages, userMessage].map(({ role, content }) => ({
+            role,
+            content,
+          })),
+          conversationId,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
-        throw new Error("Failed to get response");
+        const apiError = await readApiError(response);
+        throw apiError
+          ? new ApiRequestError(apiError)
+          : new Error("Failed to get response");
       }
 
       const reader = response.body?.getReader();
@@ -68,6 +125,24 @@ export default function AgentsSDKPage() {
               if (data) {
                 try {
                   const parsed = JSON.parse(data);
+                  // The stream ends with an error event if the agent fails
+                  const streamError = parseApiError(parsed);
+                  if (streamError) {
+                    throw new ApiRequestError(streamError);
+                  }
+                  if (parsed.sources) {
+                    setMessages((prev) => {
+                      const newMessages = [...prev];
+                      const lastIndex = newMessages.length - 1;
+                      if (newMessages[lastIndex]?.role === "assistant") {
+                        newMessages[lastIndex] = {
+                          ...newMessages[lastIndex],
+                          sources: parsed.sources,
+                        };
+                      }
+                      return newMessages;
+                    });
+                  }
                   if (parsed.content) {
                     setMessages((prev) => {
                       const newMessages = [...prev];
@@ -86,6 +161,7 @@ export default function AgentsSDKPage() {
                     });
                   }
                 } catch (e) {
+                  if (e instanceof ApiRequestError) throw e;
                   console.warn("Failed to parse streaming data:", data);
                 }
               }
@@ -94,17 +170,35 @@ export default function AgentsSDKPage() {
         }
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep what was streamed so far
+        setMessages((prev) => {
+          const lastMessage = prev[prev.length - 1];
+          return lastMessage?.role === "assistant" && !lastMessage.content
+            ? prev.slice(0, -1)
+            : prev;
+        });
+        return;
+      }
       console.error("Error:", error);
       setMessages((prev) => {
         const newMessages = [...prev];
         const lastMessage = newMessages[newMessages.length - 1];
         if (lastMessage && lastMessage.role === "assistant") {
-          lastMessage.content =
-            "Sorry, there was an error processing your request.";
+          const apiError =
+            error instanceof ApiRequestError ? error.apiError : undefined;
+          newMessages[newMessages.length - 1] = {
+            ...lastMessage,
+            content:
+              apiError?.message ??
+              "Sorry, there was an error processing your request.",
+            error: apiError,
+          };
         }
         return newMessages;
       });
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -112,7 +206,20 @@ export default function AgentsSDKPage() {
   return (
     <div className="container mx-auto p-4 max-w-4xl">
       <div className="mb-6">
-        <h1 className="text-3xl font-bold mb-2">OpenAI Agents SDK Demo</h1>
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-3xl font-bold">OpenAI Agents SDK Demo</h1>
+          <button
+            type="button"
+            onClick={() => {
+              startNewConversation();
+              setMessages([]);
+            }}
+            disabled={isLoading || messages.length === 0}
+            className="px-4 py-2 border rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            New chat
+          </button>
+        </div>
         <p className="text-gray-600">
           Test the OpenAI Agents SDK with AI SDK adapter integration
         </p>
@@ -146,7 +253,40 @@ export default function AgentsSDKPage() {
               <div className="font-semibold text-sm mb-1">
                 {message.role === "user" ? "You" : "Agent"}
               </div>
-              <div className="whitespace-pre-wrap">{message.content}</div>
+              <div
+                className={`whitespace-pre-wrap ${
+                  message.error ? "text-red-700" : ""
+                }`}
+              >
+                {message.role === "assistant" ? (
+                  <CitedText
+                    text={message.content}
+                    validCitations={getCitationNumbers(message.sources ?? [])}
+                    onCitationClick={(citation) =>
+                      setHighlighted({ messageIndex: index, citation })
+                    }
+                  />
+                ) : (
+                  message.content
+                )}
+              </div>
+              {message.sources && message.sources.length > 0 && (
+                <div className="mt-2">
+                  <SourcesDisplay
+                    sources={message.sources}
+                    highlightedCitation={
+                      highlighted?.messageIndex === index
+                        ? highlighted.citation
+                        : undefined
+                    }
+                  />
+                </div>
+              )}
+              {message.error && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Request ID: {message.error.requestId}
+                </div>
+              )}
             </div>
           ))
         )}
@@ -167,13 +307,23 @@ export default function AgentsSDKPage() {
           className="flex-1 p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           disabled={isLoading}
         />
-        <button
-          type="submit"
-          disabled={isLoading || !input.trim()}
-          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          Send
-        </button>
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="px-6 py-3 border rounded-lg hover:bg-gray-100"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        )}
       </form>
     </div>
   );
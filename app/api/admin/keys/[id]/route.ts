@@ -0,0 +1,27 @@
+import { errorResponse, getRequestId } from "@/lib/api";
+import { createApiKeyStore } from "@/lib/api-keys";
+import { requireAdmin } from "@/lib/auth";
+import { NotFoundError } from "@/lib/errors";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Revoke an API key. Requests and sessions using it are refused from then
+ * on; the record is kept for auditing.
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    requireAdmin(req);
+    const { id } = await params;
+    const apiKey = await createApiKeyStore().revoke(id);
+    if (!apiKey) {
+      throw new NotFoundError("API key not found");
+    }
+    return Response.json({ apiKey });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error revoking API key");
+  }
+}
@@ -0,0 +1,35 @@
+import { errorResponse, getRequestId, parseJsonBody } from "@/lib/api";
+import { createApiKeyStore } from "@/lib/api-keys";
+import { requireAdmin } from "@/lib/auth";
+import { createApiKeySchema } from "@/lib/schemas";
+
+/**
+ * List issued API keys (without the keys themselves). Requires
+ * `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+export async function GET(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    requireAdmin(req);
+    const apiKeys = await createApiKeyStore().list();
+    return Response.json({ apiKeys });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error listing API keys");
+  }
+}
+
+/**
+ * Issue an API key. Body: `{ name, limits? }`. The key is only returned in
+ * this response; store it safely.
+ */
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    requireAdmin(req);
+    const { name, limits } = await parseJsonBody(req, createApiKeySchema);
+    const { key, record } = await createApiKeyStore().create(name, limits);
+    return Response.json({ key, apiKey: record }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error issuing API key");
+  }
+}
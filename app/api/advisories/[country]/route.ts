@@ -0,0 +1,41 @@
+import { errorResponse, getRequestId, validate } from "@/lib/api";
+import { authorizeRequest } from "@/lib/auth";
+import { fetchTravelAdvisory } from "@/lib/advisories";
+import { formatSuggestions, resolveCountry } from "@/lib/countries";
+import { NotFoundError } from "@/lib/errors";
+import { advisoryCountrySchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ country: string }>;
+}
+
+/**
+ * A country's travel advisory (level, last update, risk categories and
+ * regional warnings) extracted from the ingested advisory documents. The
+ * country can be given by name, alias or ISO code, e.g. "ivory-coast",
+ * "UAE" or "CIV".
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    await authorizeRequest(req);
+    const query = validate(
+      advisoryCountrySchema,
+      (await params).country,
+      "Invalid country"
+    );
+    const { country, suggestions } = resolveCountry(query);
+    if (!country) {
+      throw new NotFoundError(
+        `Unknown country: ${query}. ${formatSuggestions(suggestions)}`.trim()
+      );
+    }
+    const advisory = await fetchTravelAdvisory(country, { abortSignal: req.signal });
+    if (!advisory.sources.length) {
+      throw new NotFoundError(`No travel advisory found for ${country.name}`);
+    }
+    return Response.json({ advisory });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error loading travel advisory");
+  }
+}
@@ -1,8 +1,35 @@
-import { ToolInvocation, streamText } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { z } from "zod";
-import { RetrievalService } from "@/lib/retrieval";
-import { getCountryWeatherData, getTopCities } from "@/lib/weather";
+import { ToolInvocation, createDataStreamResponse, streamText } from "ai";
+import { getModel, getModelName } from "@/lib/models";
+import { citationTransform } from "@/lib/citations";
+import { toJsonAnnotation } from "@/lib/annotations";
+import { currentDate, promptHeaders, renderPrompt } from "@/lib/prompts";
+import { isGroundingCheckEnabled, streamGroundingCheck } from "@/lib/grounding";
+import { createAgentTools } from "@/lib/agent-tools";
+import {
+  createConversationStore,
+  createStoredMessage,
+  getOwnedConversation,
+} from "@/lib/conversation-store";
+import { buildMemory, formatMemoryForPrompt } from "@/lib/memory";
+import type {
+  AnswerMetadataAnnotation,
+  ConversationMemory,
+  SourcesAnnotation,
+} from "@/types/chat";
+import {
+  REQUEST_ID_HEADER,
+  errorResponse,
+  getRequestId,
+  parseJsonBody,
+  streamErrorMessage,
+} from "@/lib/api";
+import { authorizeRequest, recordTokenUsage } from "@/lib/auth";
+import { NotFoundError } from "@/lib/errors";
+import { agentRequestSchema } from "@/lib/schemas";
+import { createStreamOutcome } from "@/lib/stream-outcome";
+import { logger } from "@/lib/logger";
+import { meterUsage } from "@/lib/usage-meter";
+import { traceRequest } from "@/lib/tracing";
 
 interface Message {
   role: "user" | "assistant";
@@ -10,125 +37,153 @@ interface Message {
   toolInvocations?: ToolInvocation[];
 }
 
-// Note: Weather functions moved to lib/weather.ts for real-time weather data
-
 export async function POST(req: Request) {
-  try {
-    const { messages }: { messages: Message[] } = await req.json();
-    console.log(`Processing request for ${messages.length} messages`);
-
-    // Keep last 2 messages for some context but not too much
-    const limitedMessages = messages.slice(-2);
-    console.log(`Limited to ${limitedMessages.length} messages for processing`);
+  const requestId = getRequestId(req);
+  return traceRequest(req, "POST /api/agent", { "request.id": requestId }, () =>
+    meterUsage("agent", requestId, async () => {
+      try {
+        const principal = await authorizeRequest(req, { model: true });
+        const { messages, conversationId } = await parseJsonBody(
+          req,
+          agentRequestSchema
+        );
+        logger.debug("Processing agent request", { messages: messages.length });
 
-    const result = streamText({
-      model: openai("gpt-4o-mini"),
-      temperature: 0.1,
-      maxTokens: 8000,
-      system: `You are GoAware, a travel advisory assistant. When a user asks about a country:
+        // Record the question before answering so it is kept even if generation fails
+        const conversationStore = createConversationStore();
+        const latestMessage = messages[messages.length - 1];
+        let previousMemory: ConversationMemory | undefined;
+        if (conversationId) {
+          await getOwnedConversation(conversationStore, conversationId, principal, "agent");
+        }
+        if (conversationId && latestMessage?.role === "user") {
+          const conversation = await conversationStore.appendMessages(conversationId, [
+            createStoredMessage("user", latestMessage.content),
+          ]);
+          if (!conversation) {
+            throw new NotFoundError("Conversation not found");
+          }
+          previousMemory = conversation.memory;
+        }
 
-1. Use searchTravelAdvisories to get comprehensive travel advisory information
-2. Use getCountryWeather to get current weather data  
-3. Present information clearly and comprehensively
+        // Keep recent turns verbatim and fold older ones into a running summary,
+        // so the country under discussion survives long conversations
+        const { recentMessages, memory, updated } = await buildMemory<Message>(
+          messages,
+          previousMemory,
+          { abortSignal: req.signal }
+        );
+        if (conversationId && updated) {
+          await conversationStore
+            .updateMemory(conversationId, memory)
+            .catch((error) => logger.error("Failed to save memory", { error }));
+        }
+        logger.debug("Sending recent messages with memory", {
+          messages: recentMessages.length,
+        });
 
-IMPORTANT: Always start your response with the official travel advisory level (e.g., "Level 1: Exercise Normal Precautions", "Level 2: Exercise Increased Caution", "Level 3: Reconsider Travel", or "Level 4: Do Not Travel") if this information is available in the travel advisory data.
+        const prompt = await renderPrompt("goaware-agent", {
+          country: memory.entities.country ?? "none yet",
+          date: currentDate(),
+          memory: formatMemoryForPrompt(memory),
+        });
 
-Format your response as follows:
-- Start with the Travel Advisory Level as a clear header
-- Follow with comprehensive travel advisory information including all important details about safety, security, entry requirements, health information, and regional warnings
-- Do NOT truncate or summarize content - provide all available information
-- Organize information in clear, well-structured paragraphs
+        const { tools, sources, toolEvidence, isValidCitation } = createAgentTools(
+          getModelName("agent")
+        );
 
-Do NOT use any markdown formatting (no **, *, #, etc.). Present information in clear, well-organized paragraphs with proper section headings.`,
-      messages: limitedMessages,
-      onStepFinish(result) {
-        console.log(`Step finished: ${result.stepType}`);
-      },
-      maxSteps: 5, // Allow sufficient steps for complete responses
-    tools: {
-      searchTravelAdvisories: {
-        description: "Search for travel advisories and information for a specific country or destination. Use this tool whenever a user mentions a country or asks about travel to a specific destination.",
-        parameters: z.object({
-          country: z
-            .string()
-            .describe("The country or destination to search travel advisories for"),
-          query: z
-            .string()
-            .describe("The specific travel query or information needed (e.g., 'travel advisory', 'safety information', 'entry requirements')"),
-        }),
-        execute: async ({ country, query }) => {
-          try {
-            const retrievalService = new RetrievalService();
-            const searchQuery = `${country} travel advisory ${query} safety crime terrorism health requirements entry restrictions regional warnings`;
-            
-            // Get comprehensive results
-            const result = await retrievalService.retrieveContext(searchQuery);
-            const documents = result.contextDocuments;
-            
-            if (!documents || documents.trim() === "No relevant documents found.") {
-              return `No specific travel advisory information found for ${country} in the database. Please check official government travel advisory websites for the most current information.`;
+        const outcome = createStreamOutcome(req.signal);
+        const result = streamText({
+          model: getModel("agent"),
+          // Stop generating, and any running tools, when the client disconnects
+          abortSignal: req.signal,
+          temperature: 0.1,
+          maxTokens: 8000,
+          system: prompt.text,
+          messages: recentMessages,
+          onStepFinish(result) {
+            logger.debug("Step finished", {
+              stepType: result.stepType,
+              finishReason: result.finishReason,
+              toolCalls: result.toolCalls.map((call) => call.toolName),
+            });
+          },
+          onError: () => outcome.fail(),
+          async onFinish({ steps, response, usage }) {
+            const text = steps.map((step) => step.text).join("");
+            // Saved first so the answer metadata can carry its message id
+            let messageId: string | undefined;
+            if (conversationId) {
+              // Tool results are saved too, so the cards come back with the conversation
+              const toolInvocations = steps.flatMap((step) =>
+                step.toolResults.map(({ toolCallId, toolName, args, result }) => ({
+                  toolCallId,
+                  toolName,
+                  args,
+                  result,
+                }))
+              );
+              const message = createStoredMessage("assistant", text, {
+                sources,
+                prompt,
+                model: response.modelId,
+                toolInvocations,
+              });
+              try {
+                await conversationStore.appendMessages(conversationId, [message]);
+                messageId = message.id;
+              } catch (error) {
+                logger.error("Failed to save assistant message", { error });
+              }
             }
-            
-            // Minimal cleaning to preserve content quality
-            const cleanedDocuments = documents
-              .replace(/\s+/g, ' ')
-              .trim();
-            
-            const response = `Travel Advisory Information for ${country}:
+            outcome.finish({ text, modelId: response.modelId, messageId });
+            await recordTokenUsage(principal, usage.totalTokens);
+          },
+          maxSteps: 5, // Allow sufficient steps for complete responses
+          experimental_transform: citationTransform(isValidCitation),
+          tools,
+        });
 
-${cleanedDocuments}`;
-            
-            // Log the response length to help debug
-            console.log(`Travel advisory response length for ${country}: ${response.length}`);
-            
-            return response;
-          } catch (error) {
-            console.error(`Error in searchTravelAdvisories for ${country}:`, error);
-            return `Error retrieving travel advisory information for ${country}. Please try again.`;
-          }
-        },
-      },
-      getCountryWeather: {
-        description: "Get current weather information for the top cities in a specific country. Use this tool after providing travel advisory information to give users complete travel planning information.",
-        parameters: z.object({
-          country: z
-            .string()
-            .describe("The country to get weather information for"),
-        }),
-        execute: async ({ country }) => {
-          try {
-            const topCities = getTopCities(country);
-            
-            // Use the real weather service
-            const weatherData = await getCountryWeatherData(country, topCities);
-            
-            const weatherReport = `Current Weather Conditions in ${country}:
+        return createDataStreamResponse({
+          // Identify the prompt template version behind this answer
+          headers: { ...promptHeaders(prompt), [REQUEST_ID_HEADER]: requestId },
+          execute: async (dataStream) => {
+            result.mergeIntoDataStream(dataStream);
 
-${weatherData.map(data => 
-  `${data.city}: ${data.temperature}°C, ${data.condition}, Humidity: ${data.humidity}%, Wind: ${data.windSpeed} km/h`
-).join('\n')}
+            const finished = await outcome.promise;
+            if (!finished) return;
 
-This weather information can help you plan what to pack and the best times to visit outdoor attractions.`;
-            
-            console.log(`Real weather data retrieved for ${country}: ${topCities.join(', ')}`);
-            console.log(`Weather report length: ${weatherReport.length}`);
-            
-            return weatherReport;
-          } catch (error) {
-            console.error(`Error in getCountryWeather for ${country}:`, error);
-            return `Error retrieving weather information for ${country}. Please try again.`;
-          }
-        },
-      },
-    },
-  });
+            // Once the tools have run, send what they retrieved and what produced
+            // the answer so feedback on it can be traced back
+            const sourcesAnnotation: SourcesAnnotation = {
+              type: "sources",
+              sources,
+              omittedSources: [],
+            };
+            const metadata: AnswerMetadataAnnotation = {
+              type: "answer-metadata",
+              query: latestMessage?.content ?? "",
+              prompt: { id: prompt.id, version: prompt.version },
+              model: finished.modelId,
+              messageId: finished.messageId,
+            };
+            dataStream.writeMessageAnnotation(toJsonAnnotation(sourcesAnnotation));
+            dataStream.writeMessageAnnotation(toJsonAnnotation(metadata));
 
-  return result.toDataStreamResponse();
-  } catch (error) {
-    console.error('Error in agent API:', error);
-    return new Response(JSON.stringify({ error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' }), { 
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
-  }
+            // Optionally verify the finished answer against the retrieved advisories
+            if (isGroundingCheckEnabled()) {
+              await streamGroundingCheck(dataStream, finished.text, sources, {
+                abortSignal: req.signal,
+                toolEvidence,
+              });
+            }
+          },
+          onError: (error) =>
+            streamErrorMessage(error, requestId, "Error streaming agent response"),
+        });
+      } catch (error) {
+        return errorResponse(error, requestId, "Error in agent API");
+      }
+    })
+  );
 }
@@ -1,13 +1,30 @@
 import { Agent, Runner, tool } from "@openai/agents";
-import { openai } from "@ai-sdk/openai";
 import { aisdk } from "@openai/agents-extensions";
+import { wrapLanguageModel } from "ai";
 import { z } from "zod";
 import { RetrievalService } from "@/lib/retrieval";
-
-interface AgentMessage {
-  role: "user" | "assistant";
-  content: string;
-}
+import { getModel, getModelName } from "@/lib/models";
+import { createCitationFilter } from "@/lib/citations";
+import { currentDate, promptHeaders, renderPrompt } from "@/lib/prompts";
+import {
+  createConversationStore,
+  createStoredMessage,
+  getOwnedConversation,
+} from "@/lib/conversation-store";
+import {
+  REQUEST_ID_HEADER,
+  errorResponse,
+  getRequestId,
+  parseJsonBody,
+  streamErrorMessage,
+} from "@/lib/api";
+import { authorizeRequest, recordTokenUsage } from "@/lib/auth";
+import { NotFoundError } from "@/lib/errors";
+import { agentsSdkRequestSchema } from "@/lib/schemas";
+import { logger } from "@/lib/logger";
+import { meterUsage } from "@/lib/usage-meter";
+import { traceRequest, withSpan } from "@/lib/tracing";
+import type { ChatSource } from "@/types/chat";
 
 function getLocation() {
   return { lat: 37.7749, lon: -122.4194 };
@@ -26,114 +43,211 @@ function getWeather({
 }
 
 export async function POST(req: Request) {
-  try {
-    const { messages }: { messages: AgentMessage[] } = await req.json();
-
-    const model = aisdk(openai("gpt-4o"));
-
-    const agent = new Agent({
-      name: "AI SDK Agent Assistant",
-      instructions: `You are a helpful assistant that can access location data, weather information, and proprietary document sources. 
-      
-      When users ask questions:
-      1. Use available tools to gather relevant information
-      2. Provide comprehensive answers based on the data retrieved
-      3. Be clear about what information comes from which sources`,
-      model,
-      tools: [
-        tool({
-          name: "getLocation",
-          description: "Get the current location of the user",
-          parameters: z.object({}),
-          execute: async () => {
-            const { lat, lon } = getLocation();
-            return `Current location: latitude ${lat}, longitude ${lon}`;
-          },
-        }),
-        tool({
-          name: "getWeather",
-          description: "Get weather information for a specific location",
-          parameters: z.object({
-            lat: z.number().describe("The latitude of the location"),
-            lon: z.number().describe("The longitude of the location"),
-            unit: z
-              .enum(["C", "F"])
-              .describe("The unit to display the temperature in"),
-          }),
-          execute: async ({ lat, lon, unit }) => {
-            const { value, description } = getWeather({ lat, lon, unit });
-            return `Weather: ${value}°${unit}, ${description}`;
+  const requestId = getRequestId(req);
+  return traceRequest(req, "POST /api/agents-sdk", { "request.id": requestId }, () =>
+    meterUsage("agents-sdk", requestId, async () => {
+      try {
+        const principal = await authorizeRequest(req, { model: true });
+        const { messages, conversationId } = await parseJsonBody(
+          req,
+          agentsSdkRequestSchema
+        );
+
+        // Aborted when the client disconnects or stops reading the answer
+        const cancel = new AbortController();
+        const abortSignal = AbortSignal.any([req.signal, cancel.signal]);
+
+        // The Runner's own `signal` option cancels its already locked event
+        // stream on abort and throws, so abort the model calls directly
+        const model = aisdk(
+          wrapLanguageModel({
+            model: getModel("agents-sdk"),
+            middleware: {
+              transformParams: async ({ params }) => ({ ...params, abortSignal }),
+            },
+          })
+        );
+
+        // Citation numbers continue across searches so every [n] is unique
+        // within the answer
+        const validCitations = new Set<number>();
+        let nextCitation = 1;
+        // Every source the searches retrieved, saved with the answer
+        const sources: ChatSource[] = [];
+
+        const prompt = await renderPrompt("agents-sdk-assistant", {
+          date: currentDate(),
+        });
+
+        const agent = new Agent({
+          name: "AI SDK Agent Assistant",
+          instructions: prompt.text,
+          model,
+          tools: [
+            tool({
+              name: "getLocation",
+              description: "Get the current location of the user",
+              parameters: z.object({}),
+              execute: async () => {
+                const { lat, lon } = getLocation();
+                return `Current location: latitude ${lat}, longitude ${lon}`;
+              },
+            }),
+            tool({
+              name: "getWeather",
+              description: "Get weather information for a specific location",
+              parameters: z.object({
+                lat: z.number().describe("The latitude of the location"),
+                lon: z.number().describe("The longitude of the location"),
+                unit: z
+                  .enum(["C", "F"])
+                  .describe("The unit to display the temperature in"),
+              }),
+              execute: async ({ lat, lon, unit }) => {
+                const { value, description } = getWeather({ lat, lon, unit });
+                return `Weather: ${value}°${unit}, ${description}`;
+              },
+            }),
+            tool({
+              name: "searchDocuments",
+              description:
+                "Search through proprietary document sources for relevant information",
+              parameters: z.object({
+                query: z
+                  .string()
+                  .describe("The search query to find relevant documents"),
+              }),
+              execute: ({ query }) =>
+                withSpan(
+                  "tool.searchDocuments",
+                  async (span) => {
+                    const retrievalService = new RetrievalService();
+                    const result = await retrievalService.retrieveContext(query, {
+                      model: getModelName("agents-sdk"),
+                      firstCitation: nextCitation,
+                      abortSignal,
+                    });
+                    sources.push(...result.sources);
+                    for (const source of result.sources) {
+                      if (source.citation !== undefined) {
+                        validCitations.add(source.citation);
+                        nextCitation = Math.max(nextCitation, source.citation + 1);
+                      }
+                    }
+                    span.setAttribute("tool.sources", result.sources.length);
+                    const documents =
+                      result.contextDocuments || "No relevant documents found.";
+                    return `Search completed for query: ${query}. Documents retrieved: ${documents}.`;
+                  },
+                  { attributes: { "tool.name": "searchDocuments", "tool.query": query } }
+                ),
+            }),
+          ],
+        });
+
+        const latestMessage = messages[messages.length - 1];
+
+        // Record the question before answering so it is kept even if generation fails
+        const conversationStore = createConversationStore();
+        if (conversationId) {
+          await getOwnedConversation(conversationStore, conversationId, principal, "agents-sdk");
+          const conversation = await conversationStore.appendMessages(conversationId, [
+            createStoredMessage("user", latestMessage.content),
+          ]);
+          if (!conversation) {
+            throw new NotFoundError("Conversation not found");
+          }
+        }
+
+        const runner = new Runner({
+          model,
+        });
+
+        const stream = await runner.run(agent, latestMessage.content, {
+          stream: true,
+        });
+
+        const encoder = new TextEncoder();
+        const readable = new ReadableStream({
+          async start(controller) {
+            try {
+              const textStream = stream.toTextStream({
+                compatibleWithNodeStreams: false,
+              });
+
+              const citationFilter = createCitationFilter((citation) =>
+                validCitations.has(citation)
+              );
+              let answer = "";
+              const send = (content: string) => {
+                if (!content) return;
+                answer += content;
+                const data = `data: ${JSON.stringify({ content })}\n\n`;
+                controller.enqueue(encoder.encode(data));
+              };
+
+              for await (const chunk of textStream) {
+                send(citationFilter.push(chunk));
+              }
+              send(citationFilter.flush());
+
+              await stream.completed;
+              // One raw response per model call of the run
+              await recordTokenUsage(
+                principal,
+                stream.rawResponses.reduce(
+                  (total, response) => total + response.usage.totalTokens,
+                  0
+                )
+              );
+
+              if (conversationId) {
+                try {
+                  await conversationStore.appendMessages(conversationId, [
+                    createStoredMessage("assistant", answer, {
+                      sources,
+                      prompt,
+                      model: getModelName("agents-sdk"),
+                    }),
+                  ]);
+                } catch (error) {
+                  logger.error("Failed to save assistant message", { error });
+                }
+              }
+              // The documents the [n] citations refer to
+              if (sources.length) {
+                controller.enqueue(
+                  encoder.encode(`data: ${JSON.stringify({ sources })}\n\n`)
+                );
+              }
+              controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+              controller.close();
+            } catch (error) {
+              // Nobody is listening any more, and a cancelled run is not a failure
+              if (abortSignal.aborted) return;
+              // Headers are already sent, so report the error as a final event
+              const message = streamErrorMessage(error, requestId, "Streaming error");
+              controller.enqueue(encoder.encode(`data: ${message}\n\n`));
+              controller.close();
+            }
           },
-        }),
-        tool({
-          name: "searchDocuments",
-          description:
-            "Search through proprietary document sources for relevant information",
-          parameters: z.object({
-            query: z
-              .string()
-              .describe("The search query to find relevant documents"),
-          }),
-          execute: async ({ query }) => {
-            const retrievalService = new RetrievalService();
-            const documents = await retrievalService.searchDocuments(query);
-            return `Search completed for query: ${query}. Documents retrieved: ${documents}.`;
+          cancel() {
+            cancel.abort();
           },
-        }),
-      ],
-    });
-
-    const latestMessage = messages[messages.length - 1];
-    if (!latestMessage || latestMessage.role !== "user") {
-      return Response.json(
-        { error: "Invalid message format" },
-        { status: 400 }
-      );
-    }
-
-    const runner = new Runner({
-      model,
-    });
-
-    const stream = await runner.run(agent, latestMessage.content, {
-      stream: true,
-    });
-
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          const textStream = stream.toTextStream({
-            compatibleWithNodeStreams: false,
-          });
-
-          for await (const chunk of textStream) {
-            const data = `data: ${JSON.stringify({ content: chunk })}\n\n`;
-            controller.enqueue(encoder.encode(data));
-          }
+        });
 
-          await stream.completed;
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
-        } catch (error) {
-          console.error("Streaming error:", error);
-          controller.error(error);
-        }
-      },
-    });
-
-    return new Response(readable, {
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
-  } catch (error) {
-    console.error("Error in agents SDK endpoint:", error);
-    return Response.json(
-      { error: "Failed to process request with Agents SDK" },
-      { status: 500 }
-    );
-  }
+        return new Response(readable, {
+          headers: {
+            ...promptHeaders(prompt),
+            [REQUEST_ID_HEADER]: requestId,
+            "Content-Type": "text/plain; charset=utf-8",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          },
+        });
+      } catch (error) {
+        return errorResponse(error, requestId, "Error in agents SDK endpoint");
+      }
+    })
+  );
 }
@@ -1,56 +1,189 @@
-import { generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { createDataStreamResponse, streamText, type Message } from "ai";
 import { RetrievalService } from "@/lib/retrieval";
-import type { ChatSource } from "@/types/chat";
+import { getModel, getModelName } from "@/lib/models";
+import { rewriteQuery } from "@/lib/query-rewrite";
+import { citationTransform } from "@/lib/citations";
+import { toJsonAnnotation } from "@/lib/annotations";
+import { promptHeaders, renderPrompt } from "@/lib/prompts";
+import { isGroundingCheckEnabled, streamGroundingCheck } from "@/lib/grounding";
+import {
+  createConversationStore,
+  createStoredMessage,
+  getOwnedConversation,
+} from "@/lib/conversation-store";
+import { buildMemory, formatMemoryForPrompt } from "@/lib/memory";
+import {
+  REQUEST_ID_HEADER,
+  errorResponse,
+  getRequestId,
+  parseJsonBody,
+  streamErrorMessage,
+} from "@/lib/api";
+import { authorizeRequest, recordTokenUsage } from "@/lib/auth";
+import { NotFoundError } from "@/lib/errors";
+import { chatRequestSchema } from "@/lib/schemas";
+import { createStreamOutcome } from "@/lib/stream-outcome";
+import { logger } from "@/lib/logger";
+import { meterUsage } from "@/lib/usage-meter";
+import { traceRequest } from "@/lib/tracing";
+import type {
+  AnswerMetadataAnnotation,
+  ChatSource,
+  ConversationMemory,
+  SourcesAnnotation,
+} from "@/types/chat";
 
 export async function POST(req: Request) {
-  try {
-    const { messages } = await req.json();
-
-    const userMessage = messages[messages.length - 1];
-    let contextDocuments = "";
-    let sources: ChatSource[] = [];
-
-    if (userMessage?.role === "user" && userMessage?.content) {
-      const retrievalService = new RetrievalService();
-      const result = await retrievalService.retrieveContext(
-        userMessage.content
-      );
-      contextDocuments = result.contextDocuments;
-      sources = result.sources;
-    }
-
-    const systemPrompt = `You are a helpful AI assistant that specializes in answering questions user have based on sources.
-
-When answering questions, use the following context documents to provide accurate and relevant information:
-
-=== CONTEXT DOCUMENTS ===
-${contextDocuments}
-=== END CONTEXT DOCUMENTS ===
-
-Please base your responses on the context provided above when relevant. If the context doesn't contain information to answer the question, acknowledge this and provide general knowledge while being clear about what information comes from the context vs. your general knowledge
-Keep your answer to less than 10 sentences.
-.`;
-
-    const result = await generateText({
-      model: openai("gpt-4o-mini"),
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        ...messages,
-      ],
-    });
-
-    // Return both the text response and sources
-    return Response.json({
-      role: "assistant",
-      content: result.text,
-      sources: sources,
-    });
-  } catch (error) {
-    console.error("Error in chat:", error);
-    return Response.json({ error: "Failed to process chat" }, { status: 500 });
-  }
+  const requestId = getRequestId(req);
+  return traceRequest(req, "POST /api/chat", { "request.id": requestId }, () =>
+    meterUsage("chat", requestId, async () => {
+      try {
+        const principal = await authorizeRequest(req, { model: true });
+        const { messages, conversationId } = await parseJsonBody(
+          req,
+          chatRequestSchema
+        );
+
+        const userMessage = messages[messages.length - 1];
+
+        // Record the question before answering so it is kept even if generation fails
+        const conversationStore = createConversationStore();
+        let previousMemory: ConversationMemory | undefined;
+        if (conversationId) {
+          await getOwnedConversation(conversationStore, conversationId, principal, "chat");
+        }
+        if (conversationId && userMessage?.role === "user") {
+          const conversation = await conversationStore.appendMessages(conversationId, [
+            createStoredMessage("user", userMessage.content),
+          ]);
+          if (!conversation) {
+            throw new NotFoundError("Conversation not found");
+          }
+          previousMemory = conversation.memory;
+        }
+
+        // Recent turns go to the model verbatim; older ones as a running summary
+        const { recentMessages, memory, updated } = await buildMemory<Omit<Message, "id">>(
+          messages,
+          previousMemory,
+          { abortSignal: req.signal }
+        );
+        if (conversationId && updated) {
+          await conversationStore
+            .updateMemory(conversationId, memory)
+            .catch((error) => logger.error("Failed to save memory", { error }));
+        }
+        let contextDocuments = "";
+        let sources: ChatSource[] = [];
+        let omittedSources: ChatSource[] = [];
+        let rewrittenQuery: string | undefined;
+        let searchQueries: string[] = [];
+
+        if (userMessage?.role === "user" && userMessage?.content) {
+          // Condense the conversation into a standalone query before retrieval
+          const rewrite = await rewriteQuery(messages, {
+            memory: formatMemoryForPrompt(memory),
+            abortSignal: req.signal,
+          });
+          rewrittenQuery = rewrite.query;
+          searchQueries = rewrite.queries;
+
+          const retrievalService = new RetrievalService();
+          const result = await retrievalService.retrieveContext(searchQueries, {
+            model: getModelName("chat"),
+            abortSignal: req.signal,
+          });
+          contextDocuments = result.contextDocuments;
+          sources = result.sources;
+          omittedSources = result.omittedSources;
+        }
+
+        const prompt = await renderPrompt("chat-rag", {
+          contextDocuments,
+          memory: formatMemoryForPrompt(memory),
+        });
+
+        const validCitations = new Set(sources.map((source) => source.citation));
+
+        const annotation: SourcesAnnotation = {
+          type: "sources",
+          sources,
+          omittedSources,
+          // Exposed for debugging retrieval
+          rewrittenQuery,
+          searchQueries,
+        };
+
+        return createDataStreamResponse({
+          // Identify the prompt template version behind this answer
+          headers: { ...promptHeaders(prompt), [REQUEST_ID_HEADER]: requestId },
+          execute: async (dataStream) => {
+            // Send sources before the first token so they render immediately
+            dataStream.writeMessageAnnotation(toJsonAnnotation(annotation));
+
+            const outcome = createStreamOutcome(req.signal);
+            const result = streamText({
+              model: getModel("chat"),
+              // Stop generating when the client disconnects or presses Stop
+              abortSignal: req.signal,
+              system: prompt.text,
+              messages: recentMessages,
+              // Drop citations that do not match a source the model was given
+              experimental_transform: citationTransform((citation) =>
+                validCitations.has(citation)
+              ),
+              onError: () => outcome.fail(),
+              onFinish: async ({ text, response, usage }) => {
+                // Saved first so the answer metadata can carry its message id
+                let messageId: string | undefined;
+                if (conversationId) {
+                  const message = createStoredMessage("assistant", text, {
+                    sources,
+                    prompt,
+                    rewrittenQuery,
+                    model: response.modelId,
+                  });
+                  try {
+                    await conversationStore.appendMessages(conversationId, [message]);
+                    messageId = message.id;
+                  } catch (error) {
+                    logger.error("Failed to save assistant message", { error });
+                  }
+                }
+                outcome.finish({ text, modelId: response.modelId, messageId });
+                await recordTokenUsage(principal, usage.totalTokens);
+              },
+            });
+
+            result.mergeIntoDataStream(dataStream);
+
+            const finished = await outcome.promise;
+            if (!finished) return;
+
+            // Record what produced the answer so feedback on it can be traced back
+            const metadata: AnswerMetadataAnnotation = {
+              type: "answer-metadata",
+              query: userMessage?.content ?? "",
+              rewrittenQuery,
+              prompt: { id: prompt.id, version: prompt.version },
+              model: finished.modelId,
+              messageId: finished.messageId,
+            };
+            dataStream.writeMessageAnnotation(toJsonAnnotation(metadata));
+
+            // Optionally verify the finished answer against its sources
+            if (isGroundingCheckEnabled()) {
+              await streamGroundingCheck(dataStream, finished.text, sources, {
+                abortSignal: req.signal,
+              });
+            }
+          },
+          onError: (error) =>
+            streamErrorMessage(error, requestId, "Error streaming chat"),
+        });
+      } catch (error) {
+        return errorResponse(error, requestId, "Error in chat");
+      }
+    })
+  );
 }
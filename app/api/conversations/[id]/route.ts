@@ -0,0 +1,69 @@
+import { errorResponse, getRequestId, parseJsonBody } from "@/lib/api";
+import { authorizeRequest } from "@/lib/auth";
+import {
+  createConversationStore,
+  getOwnedConversation,
+} from "@/lib/conversation-store";
+import { NotFoundError } from "@/lib/errors";
+import { renameConversationSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a conversation with all of its messages and their sources.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const principal = await authorizeRequest(req);
+    const { id } = await params;
+    const conversation = await getOwnedConversation(
+      createConversationStore(),
+      id,
+      principal
+    );
+    return Response.json({ conversation });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error loading conversation");
+  }
+}
+
+/**
+ * Rename a conversation. Body: `{ title }`.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const principal = await authorizeRequest(req);
+    const { id } = await params;
+    const { title } = await parseJsonBody(req, renameConversationSchema);
+    const store = createConversationStore();
+    await getOwnedConversation(store, id, principal);
+    const conversation = await store.rename(id, title);
+    if (!conversation) {
+      throw new NotFoundError("Conversation not found");
+    }
+    return Response.json({ conversation });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error renaming conversation");
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const principal = await authorizeRequest(req);
+    const { id } = await params;
+    const store = createConversationStore();
+    await getOwnedConversation(store, id, principal);
+    const deleted = await store.delete(id);
+    if (!deleted) {
+      throw new NotFoundError("Conversation not found");
+    }
+    return Response.json({ deleted: true });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error deleting conversation");
+  }
+}
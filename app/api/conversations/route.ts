@@ -0,0 +1,54 @@
+import {
+  errorResponse,
+  getRequestId,
+  parseJsonBody,
+  parseSearchParams,
+} from "@/lib/api";
+import { authorizeRequest } from "@/lib/auth";
+import {
+  createConversationStore,
+  getConversationOwner,
+} from "@/lib/conversation-store";
+import {
+  createConversationSchema,
+  listConversationsQuerySchema,
+} from "@/lib/schemas";
+
+/**
+ * List the caller's conversations, most recently updated first.
+ * `?kind=chat|agent|agents-sdk` limits the list to one chat interface.
+ */
+export async function GET(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    const principal = await authorizeRequest(req);
+    const { kind } = parseSearchParams(req, listConversationsQuerySchema);
+    const conversations = await createConversationStore().list({
+      kind,
+      ownerId: getConversationOwner(principal),
+    });
+    return Response.json({ conversations });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error listing conversations");
+  }
+}
+
+/**
+ * Create an empty conversation owned by the caller. Body: `{ kind, title? }`.
+ * Untitled conversations are named after their first user message.
+ */
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    const principal = await authorizeRequest(req);
+    const { kind, title } = await parseJsonBody(req, createConversationSchema);
+    const conversation = await createConversationStore().create(
+      kind,
+      title,
+      getConversationOwner(principal)
+    );
+    return Response.json({ conversation }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error creating conversation");
+  }
+}
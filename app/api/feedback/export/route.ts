@@ -0,0 +1,40 @@
+import { errorResponse, getRequestId, parseSearchParams } from "@/lib/api";
+import { requireAdmin } from "@/lib/auth";
+import {
+  createFeedbackStore,
+  formatFeedbackCsv,
+  formatFeedbackJsonl,
+} from "@/lib/feedback-store";
+import { feedbackExportQuerySchema } from "@/lib/schemas";
+
+/**
+ * Export feedback for analysis or to turn bad answers into regression
+ * cases. Admin only, since it holds every user's questions and answers.
+ * Query parameters:
+ * - `format`: "jsonl" (default) or "csv"
+ * - `rating` (optional): "up" or "down"
+ * - `since` (optional): ISO date; only feedback given at or after it
+ */
+export async function GET(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    requireAdmin(req);
+    const { format, rating, since } = parseSearchParams(
+      req,
+      feedbackExportQuerySchema
+    );
+    const records = await createFeedbackStore().list({ rating, since });
+
+    const body =
+      format === "csv" ? formatFeedbackCsv(records) : formatFeedbackJsonl(records);
+    return new Response(body, {
+      headers: {
+        "Content-Type":
+          format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="feedback.${format}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error exporting feedback");
+  }
+}
@@ -0,0 +1,33 @@
+import { errorResponse, getRequestId, parseJsonBody } from "@/lib/api";
+import { authorizeRequest } from "@/lib/auth";
+import {
+  createConversationStore,
+  getOwnedConversation,
+} from "@/lib/conversation-store";
+import { createFeedbackInput, createFeedbackStore } from "@/lib/feedback-store";
+import { feedbackSchema } from "@/lib/schemas";
+
+/**
+ * Record a thumbs up/down rating, with an optional comment, for a saved
+ * assistant message. The context needed to replay the answer later (the
+ * query, rewritten query, retrieved sources, prompt version and model) is
+ * read from the conversation the answer was saved in.
+ */
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    const principal = await authorizeRequest(req);
+    const request = await parseJsonBody(req, feedbackSchema);
+    const conversation = await getOwnedConversation(
+      createConversationStore(),
+      request.conversationId,
+      principal
+    );
+    const record = await createFeedbackStore().add(
+      createFeedbackInput(conversation, request)
+    );
+    return Response.json({ id: record.id }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error saving feedback");
+  }
+}
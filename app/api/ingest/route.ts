@@ -0,0 +1,102 @@
+import { DEFAULT_CHUNKING_OPTIONS } from "@/lib/chunking";
+import { detectFileType, ingestDocument, type IngestResult } from "@/lib/ingest";
+import { createVectorStore, isWritableVectorStore } from "@/lib/vector-store";
+import { errorResponse, getRequestId, validate } from "@/lib/api";
+import { requireAdmin } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { ingestFieldsSchema } from "@/lib/schemas";
+
+/**
+ * Ingest one or more documents into the configured vector store. Admin
+ * only: ingested documents are what every answer is grounded on.
+ *
+ * Expects multipart/form-data with:
+ * - `file`: one or more Markdown, HTML, plain text or PDF files
+ * - `source` (optional): stable identifier for a single file, e.g. its URL
+ * - `displayName` (optional): title shown in the sources list
+ * - `chunkSize` / `chunkOverlap` (optional): chunking settings in characters
+ */
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    requireAdmin(req);
+    const formData = await req.formData().catch(() => {
+      throw new ValidationError("Expected a multipart/form-data body");
+    });
+    const files = formData
+      .getAll("file")
+      .filter((entry): entry is File => typeof entry !== "string");
+
+    if (!files.length) {
+      throw new ValidationError(
+        "No files provided. Upload files in the \"file\" field."
+      );
+    }
+
+    const { source, displayName, chunkSize, chunkOverlap } = validate(
+      ingestFieldsSchema,
+      {
+        source: formData.get("source"),
+        displayName: formData.get("displayName"),
+        chunkSize: formData.get("chunkSize"),
+        chunkOverlap: formData.get("chunkOverlap"),
+      },
+      "Invalid form fields"
+    );
+    if (files.length > 1 && (source || displayName)) {
+      throw new ValidationError(
+        "\"source\" and \"displayName\" can only be set when uploading a single file"
+      );
+    }
+
+    const effectiveSize = chunkSize ?? DEFAULT_CHUNKING_OPTIONS.chunkSize;
+    const effectiveOverlap =
+      chunkOverlap ?? DEFAULT_CHUNKING_OPTIONS.chunkOverlap;
+    if (
+      effectiveSize <= 0 ||
+      effectiveOverlap < 0 ||
+      effectiveOverlap >= effectiveSize
+    ) {
+      throw new ValidationError(
+        "chunkSize must be positive and chunkOverlap must be between 0 and chunkSize"
+      );
+    }
+
+    const unsupported = files.filter(
+      (file) => !detectFileType(file.name, file.type)
+    );
+    if (unsupported.length) {
+      throw new ValidationError(
+        `Unsupported file type: ${unsupported
+          .map((file) => file.name)
+          .join(", ")}. Supported: Markdown, HTML, plain text and PDF.`
+      );
+    }
+
+    const store = createVectorStore();
+    if (!isWritableVectorStore(store)) {
+      throw new ValidationError(
+        "The configured vector store does not support ingestion. Set VECTOR_STORE=local or upload documents through the Vectorize dashboard."
+      );
+    }
+
+    const results: IngestResult[] = [];
+    for (const file of files) {
+      results.push(
+        await ingestDocument(
+          {
+            name: file.name,
+            mimeType: file.type,
+            data: new Uint8Array(await file.arrayBuffer()),
+          },
+          { source, displayName, chunkSize, chunkOverlap },
+          store
+        )
+      );
+    }
+
+    return Response.json({ results });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error in ingest");
+  }
+}
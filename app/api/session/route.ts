@@ -0,0 +1,69 @@
+import { errorResponse, getRequestId, parseJsonBody } from "@/lib/api";
+import { createApiKeyStore } from "@/lib/api-keys";
+import {
+  authenticate,
+  clearSessionCookie,
+  createSessionCookie,
+  isAuthEnabled,
+  isSessionSupported,
+} from "@/lib/auth";
+import { ForbiddenError, UnauthorizedError } from "@/lib/errors";
+import { sessionSchema } from "@/lib/schemas";
+
+/**
+ * Whether the API requires authentication and whether this browser is
+ * signed in.
+ */
+export async function GET(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    const authRequired = isAuthEnabled();
+    const authenticated = authRequired
+      ? await authenticate(req).then(
+          () => true,
+          (error) => {
+            if (error instanceof UnauthorizedError) return false;
+            throw error;
+          }
+        )
+      : true;
+    return Response.json({ authRequired, authenticated });
+  } catch (error) {
+    return errorResponse(error, requestId, "Error checking session");
+  }
+}
+
+/**
+ * Sign a browser in with an API key. Body: `{ apiKey }`. Sets an HttpOnly
+ * session cookie so the chat pages can call the API without handling the
+ * key themselves.
+ */
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    if (!isSessionSupported()) {
+      throw new ForbiddenError(
+        "Browser sign-in is disabled. Set SESSION_SECRET to enable it."
+      );
+    }
+    const { apiKey } = await parseJsonBody(req, sessionSchema);
+    const record = await createApiKeyStore().findByKey(apiKey);
+    if (!record) {
+      throw new UnauthorizedError("Invalid or revoked API key");
+    }
+    return Response.json(
+      { signedIn: true, name: record.name },
+      { headers: { "Set-Cookie": createSessionCookie(record.id) } }
+    );
+  } catch (error) {
+    return errorResponse(error, requestId, "Error signing in");
+  }
+}
+
+/** Sign out by clearing the session cookie. */
+export async function DELETE() {
+  return Response.json(
+    { signedIn: false },
+    { headers: { "Set-Cookie": clearSessionCookie() } }
+  );
+}
@@ -0,0 +1,34 @@
+import { errorResponse, getRequestId, parseSearchParams } from "@/lib/api";
+import { authorizeRequest, isAdminRequest } from "@/lib/auth";
+import { ForbiddenError } from "@/lib/errors";
+import { usageQuerySchema } from "@/lib/schemas";
+import { createUsageStore, summarizeUsage } from "@/lib/usage-store";
+
+/**
+ * Token usage, cost and Vectorize/weather calls of the chat routes, grouped
+ * by UTC day, route and API key. Callers presenting ADMIN_API_KEY see all
+ * usage; everyone else sees only their own. Query parameters:
+ * - `since`, `until` (optional): ISO dates bounding the requests counted
+ * - `keyId` (optional, admin only): a single API key
+ */
+export async function GET(req: Request) {
+  const requestId = getRequestId(req);
+  try {
+    const admin = isAdminRequest(req);
+    const principal = admin ? null : await authorizeRequest(req);
+    const { since, until, keyId } = parseSearchParams(req, usageQuerySchema);
+    if (keyId && !admin) {
+      throw new ForbiddenError("Only admins can view usage by API key");
+    }
+
+    const records = await createUsageStore().list({
+      since,
+      until,
+      keyId,
+      principalId: principal?.id,
+    });
+    return Response.json(summarizeUsage(records));
+  } catch (error) {
+    return errorResponse(error, requestId, "Error summarizing usage");
+  }
+}
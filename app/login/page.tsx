@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { readApiError } from "@/lib/api-errors";
+
+/**
+ * Browser sign-in for when API_AUTH is enabled: exchanges an API key for a
+ * session cookie, then returns to the page given in `?next=`.
+ */
+export default function LoginPage() {
+  const [apiKey, setApiKey] = useState("");
+  const [status, setStatus] = useState<
+    "loading" | "signed-out" | "signed-in" | "not-required"
+  >("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/session")
+      .then((response) => response.json())
+      .then(({ authRequired, authenticated }) =>
+        setStatus(
+          !authRequired ? "not-required" : authenticated ? "signed-in" : "signed-out"
+        )
+      )
+      .catch(() => setStatus("signed-out"));
+  }, []);
+
+  const returnToNext = () => {
+    const next = new URLSearchParams(window.location.search).get("next");
+    // Only follow same-site paths
+    window.location.href = next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+  };
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey }),
+      });
+      if (!response.ok) {
+        const apiError = await readApiError(response);
+        setError(apiError?.message ?? "Sign-in failed. Please try again.");
+        return;
+      }
+      returnToNext();
+    } catch (error) {
+      console.error("Sign-in failed:", error);
+      setError("Sign-in failed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/session", { method: "DELETE" });
+    setStatus("signed-out");
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-md mt-16">
+      <h1 className="text-3xl font-bold mb-2">Sign in</h1>
+
+      {status === "loading" && <p className="text-gray-600">Checking session…</p>}
+
+      {status === "not-required" && (
+        <p className="text-gray-600">
+          This server does not require authentication.{" "}
+          <a href="/" className="text-blue-600 hover:underline">
+            Continue
+          </a>
+        </p>
+      )}
+
+      {status === "signed-in" && (
+        <div className="space-y-4">
+          <p className="text-gray-600">You are signed in.</p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={returnToNext}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Continue
+            </button>
+            <button
+              type="button"
+              onClick={signOut}
+              className="px-6 py-3 border rounded-lg hover:bg-gray-100"
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status === "signed-out" && (
+        <form onSubmit={signIn} className="space-y-4">
+          <p className="text-gray-600">
+            Enter the API key you were issued to use the chat pages in this
+            browser.
+          </p>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder="ga_…"
+            autoComplete="off"
+            className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={isSubmitting}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting || !apiKey.trim()}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Signing in…" : "Sign in"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
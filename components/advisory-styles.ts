@@ -0,0 +1,37 @@
+// Colors, icons and labels shared by the agent's result cards
+import type { AdvisoryCategory, AdvisoryLevel } from "@/types/advisory";
+
+export const LEVEL_STYLES: Record<
+  AdvisoryLevel | "none",
+  { bgColor: string; borderColor: string; levelBg: string; icon: string }
+> = {
+  1: { bgColor: "bg-green-50", borderColor: "border-green-500", levelBg: "bg-green-500", icon: "✅" },
+  2: { bgColor: "bg-yellow-50", borderColor: "border-yellow-500", levelBg: "bg-yellow-500", icon: "⚠️" },
+  3: { bgColor: "bg-orange-50", borderColor: "border-orange-500", levelBg: "bg-orange-500", icon: "🚨" },
+  4: { bgColor: "bg-red-50", borderColor: "border-red-500", levelBg: "bg-red-500", icon: "🚫" },
+  none: { bgColor: "bg-blue-50", borderColor: "border-blue-500", levelBg: "bg-blue-500", icon: "📋" },
+};
+
+export const CATEGORY_LABELS: Record<AdvisoryCategory, string> = {
+  crime: "Crime",
+  terrorism: "Terrorism",
+  civil_unrest: "Civil unrest",
+  health: "Health",
+  kidnapping: "Kidnapping",
+  natural_disaster: "Natural disasters",
+};
+
+export function getWeatherIcon(condition: string) {
+  const lowerCondition = condition.toLowerCase();
+  if (lowerCondition.includes("clear sky") || lowerCondition.includes("sunny")) return "☀️";
+  if (lowerCondition.includes("clear night")) return "🌙";
+  if (lowerCondition.includes("mainly clear")) return "🌤️";
+  if (lowerCondition.includes("partly cloudy")) return "⛅";
+  if (lowerCondition.includes("overcast") || lowerCondition.includes("cloudy")) return "☁️";
+  if (lowerCondition.includes("fog")) return "🌫️";
+  if (lowerCondition.includes("drizzle")) return "🌦️";
+  if (lowerCondition.includes("rain") || lowerCondition.includes("showers")) return "🌧️";
+  if (lowerCondition.includes("snow")) return "❄️";
+  if (lowerCondition.includes("thunderstorm")) return "⛈️";
+  return "🌤️";
+}
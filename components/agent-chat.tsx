@@ -1,223 +1,67 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { useChat } from "@ai-sdk/react";
+import type { GroundingAnnotation, SourcesAnnotation } from "@/types/chat";
+import type { TripLeg } from "@/types/itinerary";
+import { getMessageAnnotation } from "@/lib/annotations";
+import { getCitationNumbers } from "@/lib/citations";
+import { parseApiError } from "@/lib/api-errors";
+import { toUiMessages, useConversation } from "@/lib/use-conversation";
+import { formatTripRequest } from "@/lib/itinerary";
+import CitedText from "./cited-text";
+import GroundedText from "./grounded-text";
+import SourcesDisplay from "./sources-display";
+import ToolInvocationCard from "./agent-tool-results";
+import FeedbackButtons from "./feedback-buttons";
+import TripPlannerForm from "./trip-planner-form";
 
-// Function to format travel advisory text for better readability
-function formatTravelAdvisoryText(text: string) {
-  // Minimal cleaning - just remove the header and basic markdown formatting
-  let cleanText = text
-    .replace(/Travel Advisory Information for [^:]+:\s*/i, '')
-    .replace(/\*\*/g, '') // Remove bold markdown
-    .replace(/\*/g, '') // Remove italic markdown
-    .replace(/#{1,6}\s/g, '') // Remove markdown headers
-    .trim();
+export default function AgentChat() {
+  const { conversationId, restored, ensureConversation, startNewConversation } =
+    useConversation("agent");
+  const { messages, setMessages, input, setInput, append, stop, status, error } = useChat({
+    api: "/api/agent",
+    maxSteps: 10,
+  });
+  const isLoading = status === "submitted" || status === "streaming";
+  // Trip planning mode replaces the question box with a list of legs
+  const [planningTrip, setPlanningTrip] = useState(false);
+  const [highlighted, setHighlighted] = useState<{
+    messageId: string;
+    citation: number;
+  } | null>(null);
+  const apiError = error ? parseApiError(error) : null;
 
-  // Remove weather information that shouldn't be in travel advisories
-  // But be more selective - only remove the weather section header and description
-  cleanText = cleanText
-    .replace(/Current Weather Conditions in [^:]+:[\s\S]*$/gi, '') // Remove everything from weather header to end
-    .replace(/Weather data retrieved for [^:]+:[\s\S]*$/gi, '')
-    .replace(/This weather information can help you plan[\s\S]*$/gi, '')
-    // Clean up extra whitespace and empty lines
-    .replace(/\n\s*\n\s*\n/g, '\n\n')
-    .replace(/^\s*\n+/g, '')
-    .trim();
+  // Clear the highlighted source chip shortly after a citation is clicked
+  useEffect(() => {
+    if (!highlighted) return;
+    const timeoutId = setTimeout(() => setHighlighted(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [highlighted]);
 
-  // Extract travel advisory level if present
-  const levelMatch = cleanText.match(/^(Level [1-4]:[^.\n]+)/i);
-  const advisoryLevel = levelMatch ? levelMatch[1].trim() : null;
-  
-  // Remove the level from the main content if found
-  if (advisoryLevel) {
-    cleanText = cleanText.replace(/^Level [1-4]:[^.\n]+\.?\s*/i, '').trim();
-  }
+  // Show the conversation saved before the page was reloaded
+  useEffect(() => {
+    if (restored) setMessages(toUiMessages(restored.messages));
+  }, [restored, setMessages]);
 
-  // Get level-specific styling
-  const getLevelStyling = (level: string) => {
-    const levelNum = level.match(/Level (\d)/)?.[1];
-    switch (levelNum) {
-      case '1':
-        return {
-          bgColor: 'bg-green-50',
-          borderColor: 'border-green-500',
-          levelBg: 'bg-green-500',
-          levelText: 'text-white',
-          icon: '✅'
-        };
-      case '2':
-        return {
-          bgColor: 'bg-yellow-50',
-          borderColor: 'border-yellow-500',
-          levelBg: 'bg-yellow-500',
-          levelText: 'text-white',
-          icon: '⚠️'
-        };
-      case '3':
-        return {
-          bgColor: 'bg-orange-50',
-          borderColor: 'border-orange-500',
-          levelBg: 'bg-orange-500',
-          levelText: 'text-white',
-          icon: '🚨'
-        };
-      case '4':
-        return {
-          bgColor: 'bg-red-50',
-          borderColor: 'border-red-500',
-          levelBg: 'bg-red-500',
-          levelText: 'text-white',
-          icon: '🚫'
-        };
-      default:
-        return {
-          bgColor: 'bg-blue-50',
-          borderColor: 'border-blue-500',
-          levelBg: 'bg-blue-500',
-          levelText: 'text-white',
-          icon: '📋'
-        };
-    }
+  const sendMessage = async (content: string) => {
+    // A new question replaces the answer still being generated
+    if (isLoading) stop();
+    const conversationId = await ensureConversation();
+    append({ content, role: "user" }, { body: { conversationId } });
   };
 
-  const styling = advisoryLevel ? getLevelStyling(advisoryLevel) : getLevelStyling('');
-
-  return [(
-    <div key="travel-advisory" className={`mb-6 p-6 rounded-lg shadow-lg border-l-4 ${styling.bgColor} ${styling.borderColor}`}>
-      <div className="flex items-center mb-4">
-        <span className="text-4xl mr-4">{styling.icon}</span>
-        <div className="flex-1">
-          <h3 className="font-bold text-xl text-gray-800">Travel Advisory Information</h3>
-          {advisoryLevel && (
-            <div className={`inline-block mt-2 px-4 py-2 rounded-full ${styling.levelBg} ${styling.levelText} font-semibold text-sm`}>
-              {advisoryLevel}
-            </div>
-          )}
-        </div>
-      </div>
-      <div className="text-gray-700 leading-relaxed text-base whitespace-pre-wrap">
-        {cleanText}
-      </div>
-    </div>
-  )];
-}
-
-
-
-// Function to format weather information for better readability
-function formatWeatherText(text: string) {
-  // Extract country name and weather data
-  const countryMatch = text.match(/Current Weather Conditions in ([^:]+):/);
-  const country = countryMatch ? countryMatch[1] : "Unknown Country";
-  
-  // Extract individual city weather lines and clean them
-  const weatherLines = text
-    .split('\n')
-    .filter(line => line.includes('°C') && line.includes(':'))
-    .map(line => line.trim())
-    .map(line => line.replace(/\*\*/g, '').replace(/^\*\*|\*\*$/g, '').replace(/^\*|\*$/g, '')); // Remove all markdown formatting
-  
-  // Extract the description line
-  const descriptionMatch = text.match(/This weather information[^.]*\./);
-  const description = descriptionMatch ? descriptionMatch[0] : "";
-
-  return (
-    <div className="mb-6 p-6 rounded-lg shadow-lg border-l-4 bg-blue-50 border-blue-500">
-      <div className="flex items-center mb-4">
-        <span className="text-4xl mr-4 text-blue-600">🌤️</span>
-        <h3 className="font-bold text-xl text-blue-800">Current Weather in {country}</h3>
-      </div>
-      
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {weatherLines.map((line, index) => {
-          // Parse the weather line: "City: temp°C, condition, Humidity: X%, Wind: Y km/h"
-          const parts = line.split(':');
-          if (parts.length < 2) return null;
-          
-          // Clean the city name of any remaining formatting characters
-          const city = parts[0].trim()
-            .replace(/\*\*/g, '') // Remove bold markdown
-            .replace(/\*/g, '') // Remove italic markdown  
-            .replace(/^-\s*/, '') // Remove leading dashes
-            .replace(/^#+\s*/, '') // Remove heading markdown
-            .trim();
-          const weatherInfo = parts.slice(1).join(':').trim();
-          
-          // Extract temperature
-          const tempMatch = weatherInfo.match(/(\d+)°C/);
-          const temperature = tempMatch ? tempMatch[1] : "N/A";
-          
-          // Extract condition
-          const conditionMatch = weatherInfo.match(/°C,\s*([^,]+)/);
-          const condition = conditionMatch ? conditionMatch[1].trim() : "N/A";
-          
-          // Extract humidity
-          const humidityMatch = weatherInfo.match(/Humidity:\s*(\d+)%/);
-          const humidity = humidityMatch ? humidityMatch[1] : "N/A";
-          
-          // Extract wind speed
-          const windMatch = weatherInfo.match(/Wind:\s*(\d+)\s*km\/h/);
-          const windSpeed = windMatch ? windMatch[1] : "N/A";
-          
-          // Get weather icon based on condition
-          const getWeatherIcon = (condition: string) => {
-            const lowerCondition = condition.toLowerCase();
-            if (lowerCondition.includes('clear sky') || lowerCondition.includes('sunny')) return '☀️';
-            if (lowerCondition.includes('clear night')) return '🌙';
-            if (lowerCondition.includes('mainly clear')) return '🌤️';
-            if (lowerCondition.includes('partly cloudy')) return '⛅';
-            if (lowerCondition.includes('overcast') || lowerCondition.includes('cloudy')) return '☁️';
-            if (lowerCondition.includes('fog')) return '🌫️';
-            if (lowerCondition.includes('drizzle')) return '🌦️';
-            if (lowerCondition.includes('rain') || lowerCondition.includes('showers')) return '🌧️';
-            if (lowerCondition.includes('snow')) return '❄️';
-            if (lowerCondition.includes('thunderstorm')) return '⛈️';
-            return '🌤️';
-          };
-          
-          return (
-            <div key={index} className="bg-white p-4 rounded-lg border border-blue-200 shadow-sm">
-              <div className="flex items-center justify-between mb-2">
-                <h4 className="font-semibold text-blue-900">{city}</h4>
-                <span className="text-2xl">{getWeatherIcon(condition)}</span>
-              </div>
-              
-              <div className="space-y-1 text-sm text-gray-700">
-                <div className="flex justify-between">
-                  <span>Temperature:</span>
-                  <span className="font-medium text-blue-600">{temperature}°C</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Condition:</span>
-                  <span className="font-medium capitalize">{condition}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Humidity:</span>
-                  <span className="font-medium">{humidity}%</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Wind Speed:</span>
-                  <span className="font-medium">{windSpeed} km/h</span>
-                </div>
-              </div>
-            </div>
-          );
-        })}
-      </div>
-      
-      {description && (
-        <div className="mt-4 p-3 bg-blue-100 rounded-lg">
-          <p className="text-blue-800 text-sm italic">{description}</p>
-        </div>
-      )}
-    </div>
-  );
-}
+  const send = async () => {
+    if (!input.trim()) return;
+    const content = input;
+    setInput("");
+    await sendMessage(content);
+  };
 
-export default function AgentChat() {
-  const { messages, input, setInput, append } = useChat({
-    api: "/api/agent",
-    maxSteps: 10,
-  });
+  const planTrip = async (legs: TripLeg[]) => {
+    setPlanningTrip(false);
+    await sendMessage(formatTripRequest(legs));
+  };
 
   return (
     <div className="flex flex-col h-[90vh] max-w-6xl mx-auto">
@@ -248,80 +92,179 @@ export default function AgentChat() {
                   : "text-gray-800"
               }`}>
                 {(() => {
-                  // Check for travel advisory with weather
-                  if (message.role === "assistant" && message.content.includes("Travel Advisory")) {
-                    // More robust weather detection
-                    const hasWeatherData = message.content.includes("Current Weather Conditions") || 
-                                         message.content.includes("Weather data retrieved") ||
-                                         (message.content.includes("°C") && 
-                                          (message.content.includes("Humidity") || 
-                                           message.content.includes("Wind") ||
-                                           message.content.includes("weather information can help")));
-                    
+                  if (message.role === "user") {
                     return (
-                      <div className="space-y-4">
-                        {formatTravelAdvisoryText(message.content)}
-                        {hasWeatherData && (
-                          <div className="mt-8 pt-6 border-t border-gray-200">
-                            {formatWeatherText(message.content)}
-                          </div>
-                        )}
+                      <div className="leading-relaxed whitespace-pre-wrap text-base">
+                        {message.content}
                       </div>
                     );
                   }
-                  
-                  // Check for standalone weather
-                  if (message.role === "assistant" && 
-                      (message.content.includes("Current Weather Conditions") || 
-                       message.content.includes("Weather data retrieved") ||
-                       (message.content.includes("°C") && message.content.includes("Humidity"))) && 
-                      !message.content.includes("Travel Advisory")) {
+
+                  const grounding = getMessageAnnotation<GroundingAnnotation>(
+                    message,
+                    "grounding"
+                  );
+                  // The advisory documents the answer cites, sent once it has finished
+                  const sourcesAnnotation = getMessageAnnotation<SourcesAnnotation>(
+                    message,
+                    "sources"
+                  );
+                  const sources = sourcesAnnotation?.sources ?? [];
+                  const validCitations = getCitationNumbers(sources);
+                  // Advisory and weather cards come from the tools' JSON results
+                  const toolInvocations = message.toolInvocations ?? [];
+                  return (
+                    <div className="space-y-4">
+                      {toolInvocations.map((toolInvocation) => (
+                        <ToolInvocationCard
+                          key={toolInvocation.toolCallId}
+                          toolInvocation={toolInvocation}
+                        />
+                      ))}
+                      {message.content && (
+                        <div className="leading-relaxed whitespace-pre-wrap text-base">
+                          <GroundedText
+                            text={message.content}
+                            claims={grounding?.claims}
+                            renderText={(text) => (
+                              <CitedText
+                                text={text}
+                                validCitations={validCitations}
+                                onCitationClick={(citation) =>
+                                  setHighlighted({ messageId: message.id, citation })
+                                }
+                              />
+                            )}
+                          />
+                        </div>
+                      )}
+                      {sources.length > 0 && (
+                        <SourcesDisplay
+                          sources={sources}
+                          highlightedCitation={
+                            highlighted?.messageId === message.id
+                              ? highlighted.citation
+                              : undefined
+                          }
+                        />
+                      )}
+                    </div>
+                  );
+                })()}
+              </div>
+
+              {message.role === "assistant" &&
+                (() => {
+                  const grounding = getMessageAnnotation<GroundingAnnotation>(
+                    message,
+                    "grounding"
+                  );
+                  if (!grounding) return null;
+                  if (grounding.status === "checking") {
                     return (
-                      <div className="space-y-4">
-                        {formatWeatherText(message.content)}
+                      <div className="mt-4 text-sm text-gray-500">
+                        Checking answer against travel advisories…
                       </div>
                     );
                   }
-                  
-                  // Default text rendering
+                  if (grounding.status === "failed" || !grounding.unsupportedCount) {
+                    return null;
+                  }
                   return (
-                    <div className="leading-relaxed whitespace-pre-wrap text-base">
-                      {message.content}
+                    <div className="mt-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">
+                      ⚠️ {grounding.unsupportedCount}{" "}
+                      {grounding.unsupportedCount === 1 ? "statement is" : "statements are"}{" "}
+                      not supported by the retrieved travel advisories (underlined). Please
+                      confirm with official sources.
                     </div>
                   );
                 })()}
-              </div>
+
+              {message.role === "assistant" &&
+                message.content &&
+                !(isLoading && index === messages.length - 1) && (
+                  <div className="mt-4 text-gray-600">
+                    <FeedbackButtons
+                      conversationId={conversationId ?? undefined}
+                      message={message}
+                    />
+                  </div>
+                )}
             </div>
           </div>
         ))}
+
+        {error && !isLoading && (
+          <div className="mb-6 flex justify-start">
+            <div className="max-w-5xl p-6 rounded-xl bg-red-50 border border-red-200 text-red-800">
+              <div className="font-semibold mb-1">
+                {apiError?.message ?? "Something went wrong. Please try again."}
+              </div>
+              {apiError && (
+                <div className="text-sm text-red-600">
+                  Request ID: {apiError.requestId}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="p-6 border-t bg-white shadow-lg">
+        {planningTrip && (
+          <div className="mb-4 max-w-6xl">
+            <TripPlannerForm onSubmit={planTrip} />
+          </div>
+        )}
         <div className="flex gap-4 max-w-6xl">
-          <input
-            className="flex-1 p-4 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-800 text-lg"
-            placeholder="e.g., What are the travel advisories for India?"
-            value={input}
-            onChange={(event) => {
-              setInput(event.target.value);
-            }}
-            onKeyDown={async (event) => {
-              if (event.key === "Enter") {
-                append({ content: input, role: "user" });
-                setInput("");
-              }
-            }}
-          />
+          {planningTrip ? (
+            <div className="flex-1" />
+          ) : (
+            <>
+              <input
+                className="flex-1 p-4 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-800 text-lg"
+                placeholder="e.g., What are the travel advisories for India?"
+                value={input}
+                onChange={(event) => {
+                  setInput(event.target.value);
+                }}
+                onKeyDown={async (event) => {
+                  if (event.key === "Enter") {
+                    await send();
+                  }
+                }}
+              />
+              <button
+                className="px-8 py-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200 font-semibold text-lg shadow-lg"
+                onClick={send}
+              >
+                Send
+              </button>
+            </>
+          )}
+          {isLoading && (
+            <button
+              className="px-6 py-4 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors duration-200 font-semibold text-lg"
+              onClick={stop}
+            >
+              Stop
+            </button>
+          )}
+          <button
+            className="px-6 py-4 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors duration-200 font-semibold text-lg"
+            onClick={() => setPlanningTrip((planning) => !planning)}
+          >
+            {planningTrip ? "Ask a question" : "Plan a trip"}
+          </button>
           <button
-            className="px-8 py-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200 font-semibold text-lg shadow-lg"
+            className="px-6 py-4 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors duration-200 font-semibold text-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={messages.length === 0 || isLoading}
             onClick={() => {
-              if (input.trim()) {
-                append({ content: input, role: "user" });
-                setInput("");
-              }
+              startNewConversation();
+              setMessages([]);
             }}
           >
-            Send
+            New chat
           </button>
         </div>
       </div>
@@ -0,0 +1,356 @@
+import type { ToolInvocation } from "ai";
+import type { AdvisoryCategory } from "@/types/advisory";
+import type {
+  CountryComparisonResult,
+  CountryWeatherResult,
+  ItineraryResult,
+  TravelAdvisoryResult,
+  WeatherForecastResult,
+} from "@/types/agent";
+import type { TripLeg } from "@/types/itinerary";
+import { CATEGORY_LABELS, LEVEL_STYLES, getWeatherIcon } from "./advisory-styles";
+import ItineraryTimeline from "./itinerary-timeline";
+
+export function TravelAdvisoryCard({ result }: { result: TravelAdvisoryResult }) {
+  if (result.status !== "found") {
+    return (
+      <div className="p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-600">
+        {result.message}
+      </div>
+    );
+  }
+
+  const { advisory } = result;
+  const styling = LEVEL_STYLES[advisory.level ?? "none"];
+  return (
+    <div className={`p-6 rounded-lg shadow-lg border-l-4 ${styling.bgColor} ${styling.borderColor}`}>
+      <div className="flex items-center">
+        <span className="text-4xl mr-4">{styling.icon}</span>
+        <div className="flex-1">
+          <h3 className="font-bold text-xl text-gray-800">
+            Travel Advisory for {result.country}
+          </h3>
+          {advisory.level && (
+            <div className={`inline-block mt-2 px-4 py-2 rounded-full ${styling.levelBg} text-white font-semibold text-sm`}>
+              Level {advisory.level}: {advisory.levelLabel}
+            </div>
+          )}
+          {advisory.updatedAt && (
+            <div className="mt-2 text-xs text-gray-500">Updated {advisory.updatedAt}</div>
+          )}
+        </div>
+      </div>
+
+      {advisory.regions.length > 0 && (
+        <div className="mt-4">
+          <h4 className="font-semibold text-gray-800 mb-2">Regional warnings</h4>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {advisory.regions.map((region) => (
+              <li key={region.region} className="flex items-start gap-2">
+                <span className={`shrink-0 px-2 rounded-full ${LEVEL_STYLES[region.level].levelBg} text-white text-xs font-semibold`}>
+                  Level {region.level}
+                </span>
+                <span>
+                  {region.region}
+                  {region.reason && <span className="text-gray-500"> ({region.reason})</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {advisory.sections.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {advisory.sections.map((section) => (
+            <span
+              key={section.category}
+              title={section.text}
+              className="px-3 py-1 rounded-full bg-white border border-gray-200 text-xs text-gray-700"
+            >
+              {CATEGORY_LABELS[section.category]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {advisory.sources.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm text-gray-600">
+          {advisory.sources.map((source) => (
+            <li key={source.chunkId}>
+              {source.citation !== undefined && (
+                <span className="font-medium">[{source.citation}] </span>
+              )}
+              {source.title}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function WeatherCard({ result }: { result: CountryWeatherResult }) {
+  if (result.status !== "ok") {
+    return (
+      <div className="p-4 rounded-lg border border-blue-200 bg-blue-50 text-sm text-blue-800">
+        🌤️ {result.message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 rounded-lg shadow-lg border-l-4 bg-blue-50 border-blue-500">
+      <div className="flex items-center mb-4">
+        <span className="text-4xl mr-4 text-blue-600">🌤️</span>
+        <h3 className="font-bold text-xl text-blue-800">Current Weather in {result.country}</h3>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {result.cities.map((weather) => (
+          <div key={weather.city} className="bg-white p-4 rounded-lg border border-blue-200 shadow-sm">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-blue-900">{weather.city}</h4>
+              <span className="text-2xl">{getWeatherIcon(weather.condition)}</span>
+            </div>
+
+            <div className="space-y-1 text-sm text-gray-700">
+              <div className="flex justify-between">
+                <span>Temperature:</span>
+                <span className="font-medium text-blue-600">{weather.temperature}°C</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Condition:</span>
+                <span className="font-medium capitalize">{weather.condition}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Humidity:</span>
+                <span className="font-medium">{weather.humidity}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Wind Speed:</span>
+                <span className="font-medium">{weather.windSpeed} km/h</span>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ForecastCard({ result }: { result: WeatherForecastResult }) {
+  if (result.status !== "ok") {
+    return (
+      <div className="p-4 rounded-lg border border-blue-200 bg-blue-50 text-sm text-blue-800">
+        🌤️ {result.message}
+      </div>
+    );
+  }
+
+  const { forecast } = result;
+  return (
+    <div className="p-6 rounded-lg shadow-lg border-l-4 bg-blue-50 border-blue-500">
+      <div className="flex items-center mb-4">
+        <span className="text-4xl mr-4 text-blue-600">📅</span>
+        <div>
+          <h3 className="font-bold text-xl text-blue-800">
+            Forecast for {forecast.city}, {result.country}
+          </h3>
+          <div className="text-sm text-blue-700">
+            {result.startDate} → {result.endDate}
+          </div>
+        </div>
+      </div>
+
+      {forecast.days.length > 0 && (
+        <div className="grid gap-2 grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+          {forecast.days.map((day) => (
+            <div key={day.date} className="bg-white p-3 rounded-lg border border-blue-200 shadow-sm text-sm text-gray-700">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-blue-900">{day.date.slice(5)}</span>
+                <span className="text-xl">{getWeatherIcon(day.condition)}</span>
+              </div>
+              <div className="mt-1 capitalize">{day.condition}</div>
+              <div>
+                <span className="font-medium text-blue-600">{day.temperatureMax}°C</span>
+                <span className="text-gray-400"> / {day.temperatureMin}°C</span>
+              </div>
+              {day.precipitationProbability !== null && (
+                <div className="text-gray-500">💧 {day.precipitationProbability}%</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {result.message && <div className="mt-3 text-sm text-blue-700">{result.message}</div>}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of several countries: advisory levels, which risk
+ * categories each advisory raises, regional warnings and current weather.
+ */
+export function ComparisonTable({ result }: { result: CountryComparisonResult }) {
+  if (result.status !== "ok") {
+    return (
+      <div className="p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-600">
+        {result.message}
+      </div>
+    );
+  }
+
+  const { countries } = result;
+  const categories = Object.keys(CATEGORY_LABELS) as AdvisoryCategory[];
+  const cellClass = "px-3 py-2 align-top border-t border-gray-200";
+  return (
+    <div className="rounded-lg shadow-lg border border-gray-200 bg-white overflow-x-auto">
+      <table className="min-w-full text-sm text-gray-700">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-semibold text-gray-800">Compared</th>
+            {countries.map((entry) => (
+              <th key={entry.country} className="px-3 py-2 text-left font-semibold text-gray-800">
+                {entry.country}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <th className={`${cellClass} text-left font-medium`}>Advisory level</th>
+            {countries.map(({ country, advisory }) => {
+              const styling = LEVEL_STYLES[advisory?.level ?? "none"];
+              return (
+                <td key={country} className={cellClass}>
+                  {advisory?.level ? (
+                    <span className={`inline-block px-2 py-1 rounded-full ${styling.levelBg} text-white text-xs font-semibold`}>
+                      {styling.icon} Level {advisory.level}: {advisory.levelLabel}
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">Unknown</span>
+                  )}
+                  {advisory?.updatedAt && (
+                    <div className="mt-1 text-xs text-gray-500">Updated {advisory.updatedAt}</div>
+                  )}
+                </td>
+              );
+            })}
+          </tr>
+          {categories.map((category) => (
+            <tr key={category}>
+              <th className={`${cellClass} text-left font-medium`}>{CATEGORY_LABELS[category]}</th>
+              {countries.map(({ country, advisory }) => {
+                const section = advisory?.sections.find((s) => s.category === category);
+                return (
+                  <td key={country} className={cellClass} title={section?.text}>
+                    {section ? "⚠️ Raised" : <span className="text-gray-400">—</span>}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr>
+            <th className={`${cellClass} text-left font-medium`}>Regional warnings</th>
+            {countries.map(({ country, advisory }) => (
+              <td key={country} className={cellClass}>
+                {advisory?.regions.length ? (
+                  <ul className="space-y-1">
+                    {advisory.regions.map((region) => (
+                      <li key={region.region}>
+                        <span className={`px-2 rounded-full ${LEVEL_STYLES[region.level].levelBg} text-white text-xs font-semibold`}>
+                          {region.level}
+                        </span>{" "}
+                        {region.region}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <span className="text-gray-400">—</span>
+                )}
+              </td>
+            ))}
+          </tr>
+          <tr>
+            <th className={`${cellClass} text-left font-medium`}>Weather now</th>
+            {countries.map(({ country, weather }) => (
+              <td key={country} className={cellClass}>
+                {weather?.length ? (
+                  <ul className="space-y-1">
+                    {weather.map((city) => (
+                      <li key={city.city} title={`${city.humidity}% humidity, wind ${city.windSpeed} km/h`}>
+                        {getWeatherIcon(city.condition)} {city.city}: {city.temperature}°C
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <span className="text-gray-400">Unavailable</span>
+                )}
+              </td>
+            ))}
+          </tr>
+          {countries.some((entry) => entry.notes.length > 0) && (
+            <tr>
+              <th className={`${cellClass} text-left font-medium`}>Notes</th>
+              {countries.map(({ country, notes }) => (
+                <td key={country} className={`${cellClass} text-xs text-gray-500`}>
+                  {notes.join(" ")}
+                </td>
+              ))}
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const PENDING_LABELS: Record<
+  string,
+  (args: { country?: string; countries?: string[]; legs?: TripLeg[] }) => string
+> = {
+  searchTravelAdvisories: ({ country }) => `Searching travel advisories for ${country ?? "the destination"}`,
+  getCountryWeather: ({ country }) => `Getting current weather for ${country ?? "the destination"}`,
+  compareCountries: ({ countries }) => `Comparing ${countries?.join(", ") ?? "countries"}`,
+  getWeatherForecast: ({ country }) => `Getting the forecast for ${country ?? "the destination"}`,
+  // Legs stream in one field at a time
+  planTrip: ({ legs }) =>
+    `Checking ${legs?.map((leg) => leg?.destination).filter(Boolean).join(" → ") || "your trip"}`,
+};
+
+/**
+ * Card for one of the agent's tool calls: a progress line while the tool
+ * runs, then its result. Unknown tools render nothing.
+ */
+export default function ToolInvocationCard({
+  toolInvocation,
+}: {
+  toolInvocation: ToolInvocation;
+}) {
+  const { toolName } = toolInvocation;
+  if (toolInvocation.state !== "result") {
+    const label = PENDING_LABELS[toolName];
+    if (!label) return null;
+    return (
+      <div className="text-sm text-gray-500 animate-pulse">
+        {label(toolInvocation.args ?? {})}…
+      </div>
+    );
+  }
+
+  switch (toolName) {
+    case "searchTravelAdvisories":
+      return <TravelAdvisoryCard result={toolInvocation.result as TravelAdvisoryResult} />;
+    case "getCountryWeather":
+      return <WeatherCard result={toolInvocation.result as CountryWeatherResult} />;
+    case "compareCountries":
+      return <ComparisonTable result={toolInvocation.result as CountryComparisonResult} />;
+    case "getWeatherForecast":
+      return <ForecastCard result={toolInvocation.result as WeatherForecastResult} />;
+    case "planTrip":
+      return <ItineraryTimeline result={toolInvocation.result as ItineraryResult} />;
+    default:
+      return null;
+  }
+}
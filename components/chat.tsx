@@ -1,26 +1,50 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import type { ChatSource } from "@/types/chat";
+import { useChat } from "@ai-sdk/react";
+import type { GroundingAnnotation, SourcesAnnotation } from "@/types/chat";
 import SourcesDisplay from "./sources-display";
+import CitedText from "./cited-text";
+import GroundedText from "./grounded-text";
+import FeedbackButtons from "./feedback-buttons";
 import { loadingMessages } from "@/lib/consts";
-
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  createdAt?: Date;
-}
-
-interface MessageWithSources extends Message {
-  sources?: ChatSource[];
-}
+import { getMessageAnnotation } from "@/lib/annotations";
+import { getCitationNumbers } from "@/lib/citations";
+import { parseApiError } from "@/lib/api-errors";
+import { toUiMessages, useConversation } from "@/lib/use-conversation";
 
 export default function Chat() {
-  const [messages, setMessages] = useState<MessageWithSources[]>([]);
-  const [input, setInput] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
+  const { conversationId, restored, ensureConversation, startNewConversation } =
+    useConversation("chat");
+  const {
+    messages,
+    setMessages,
+    input,
+    setInput,
+    handleSubmit,
+    stop,
+    status,
+    error,
+  } = useChat({
+    api: "/api/chat",
+    onError: (error) => {
+      console.error("Chat error:", error);
+    },
+  });
+  const isLoading = status === "submitted" || status === "streaming";
+  const apiError = error ? parseApiError(error) : null;
+  const lastMessage = messages[messages.length - 1];
+  // Keep the loading indicator until the first token of the answer arrives
+  const isWaitingForText =
+    status === "submitted" ||
+    (status === "streaming" &&
+      lastMessage?.role === "assistant" &&
+      !lastMessage.content);
   const [loadingMessage, setLoadingMessage] = useState(loadingMessages[0]);
+  const [highlighted, setHighlighted] = useState<{
+    messageId: string;
+    citation: number;
+  } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -33,7 +57,7 @@ export default function Chat() {
   }, [messages]);
 
   useEffect(() => {
-    if (!isLoading) return;
+    if (!isWaitingForText) return;
 
     // Set initial random message
     setLoadingMessage(
@@ -68,67 +92,44 @@ export default function Chat() {
     return () => {
       if (timeoutId) clearTimeout(timeoutId);
     };
-  }, [isLoading]);
+  }, [isWaitingForText]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: "user",
-      content: input.trim(),
-      createdAt: new Date(),
-    };
-
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
-    setIsLoading(true);
-
-    try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map(
-            ({ id, createdAt, ...msg }) => msg
-          ),
-        }),
-      });
-
-      const data = await response.json();
+  // Clear the highlighted source chip shortly after a citation is clicked
+  useEffect(() => {
+    if (!highlighted) return;
+    const timeoutId = setTimeout(() => setHighlighted(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [highlighted]);
 
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to get response");
-      }
+  // Show the conversation saved before the page was reloaded
+  useEffect(() => {
+    if (restored) setMessages(toUiMessages(restored.messages));
+  }, [restored, setMessages]);
 
-      const assistantMessage: MessageWithSources = {
-        id: Date.now().toString(),
-        role: "assistant",
-        content: data.content,
-        sources: data.sources || [],
-        createdAt: new Date(),
-      };
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading) return;
+    const conversationId = await ensureConversation();
+    handleSubmit(e, { body: { conversationId } });
+  };
 
-      setMessages((prev) => [...prev, assistantMessage]);
-    } catch (error) {
-      console.error("Chat error:", error);
-      const errorMessage: Message = {
-        id: Date.now().toString(),
-        role: "assistant",
-        content: "Sorry, I encountered an error. Please try again.",
-        createdAt: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
-    }
+  const onNewChat = () => {
+    startNewConversation();
+    setMessages([]);
   };
 
   return (
     <div className="flex flex-col h-screen bg-background">
-      <header className="border-b border-border p-4">
+      <header className="border-b border-border p-4 flex items-center justify-between">
         <h1 className="text-xl font-semibold text-foreground">Chat</h1>
+        <button
+          type="button"
+          onClick={onNewChat}
+          disabled={isLoading || messages.length === 0}
+          className="px-3 py-1 text-sm border border-border rounded-md hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          New chat
+        </button>
       </header>
 
       <div
@@ -143,47 +144,135 @@ export default function Chat() {
             </p>
           </div>
         ) : (
-          messages.map((message) => (
-            <div key={message.id} className="space-y-2">
-              <div
-                className={`flex ${
-                  message.role === "user" ? "justify-end" : "justify-start"
-                }`}
-              >
-                <div className="max-w-md lg:max-w-2xl">
-                  {/* Sources at the top for assistant messages */}
-                  {message.role === "assistant" &&
-                    message.sources &&
-                    message.sources.length > 0 && (
-                      <SourcesDisplay sources={message.sources} />
+          messages.map((message) => {
+            // Sources arrive as a message annotation ahead of the answer text
+            const sourcesAnnotation = getMessageAnnotation<SourcesAnnotation>(
+              message,
+              "sources"
+            );
+            const grounding = getMessageAnnotation<GroundingAnnotation>(
+              message,
+              "grounding"
+            );
+            const validCitations = getCitationNumbers(sourcesAnnotation?.sources ?? []);
+            // Skip the empty assistant bubble while waiting for the first token
+            if (message.role === "assistant" && !message.content && !sourcesAnnotation) {
+              return null;
+            }
+
+            return (
+              <div key={message.id} className="space-y-2">
+                <div
+                  className={`flex ${
+                    message.role === "user" ? "justify-end" : "justify-start"
+                  }`}
+                >
+                  <div className="max-w-md lg:max-w-2xl">
+                    {/* Sources at the top for assistant messages */}
+                    {message.role === "assistant" &&
+                      sourcesAnnotation &&
+                      sourcesAnnotation.sources.length > 0 && (
+                        <SourcesDisplay
+                          sources={sourcesAnnotation.sources}
+                          omittedCount={sourcesAnnotation.omittedSources.length}
+                          highlightedCitation={
+                            highlighted?.messageId === message.id
+                              ? highlighted.citation
+                              : undefined
+                          }
+                        />
+                      )}
+
+                    {message.content && (
+                      <div
+                        className={`px-4 py-2 rounded-lg ${
+                          message.role === "user"
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-muted text-muted-foreground"
+                        }`}
+                      >
+                        <p className="text-sm whitespace-pre-wrap">
+                          {message.role === "assistant" ? (
+                            <GroundedText
+                              text={message.content}
+                              claims={grounding?.claims}
+                              renderText={(text) => (
+                                <CitedText
+                                  text={text}
+                                  validCitations={validCitations}
+                                  onCitationClick={(citation) =>
+                                    setHighlighted({
+                                      messageId: message.id,
+                                      citation,
+                                    })
+                                  }
+                                />
+                              )}
+                            />
+                          ) : (
+                            message.content
+                          )}
+                        </p>
+                        {message.role === "assistant" && grounding && (
+                          <p className="text-xs mt-2">
+                            {grounding.status === "checking" &&
+                              "Checking answer against sources…"}
+                            {grounding.status === "failed" &&
+                              "Could not verify this answer against its sources."}
+                            {grounding.status === "done" &&
+                              (grounding.unsupportedCount > 0
+                                ? `⚠️ ${grounding.unsupportedCount} ${
+                                    grounding.unsupportedCount === 1
+                                      ? "claim is"
+                                      : "claims are"
+                                  } not supported by the sources (underlined).`
+                                : "✓ Verified against sources.")}
+                          </p>
+                        )}
+                        <span className="text-xs opacity-70 mt-1 block">
+                          {new Date(
+                            message.createdAt || Date.now()
+                          ).toLocaleTimeString([], {
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </span>
+                      </div>
                     )}
 
-                  <div
-                    className={`px-4 py-2 rounded-lg ${
-                      message.role === "user"
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted text-muted-foreground"
-                    }`}
-                  >
-                    <p className="text-sm whitespace-pre-wrap">
-                      {message.content}
-                    </p>
-                    <span className="text-xs opacity-70 mt-1 block">
-                      {new Date(
-                        message.createdAt || Date.now()
-                      ).toLocaleTimeString([], {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      })}
-                    </span>
+                    {/* Rate answers once they have finished streaming */}
+                    {message.role === "assistant" &&
+                      message.content &&
+                      !(isLoading && message.id === lastMessage?.id) && (
+                        <FeedbackButtons
+                          conversationId={conversationId ?? undefined}
+                          message={message}
+                        />
+                      )}
                   </div>
                 </div>
               </div>
+            );
+          })
+        )}
+
+        {error && !isLoading && (
+          <div className="flex justify-start">
+            <div className="max-w-md lg:max-w-2xl px-4 py-2 rounded-lg bg-muted text-muted-foreground">
+              <p className="text-sm">
+                {apiError?.message ??
+                  "Sorry, I encountered an error. Please try again."}
+              </p>
+              {apiError && (
+                <p className="text-xs opacity-70 mt-1">
+                  Request ID: {apiError.requestId}
+                </p>
+              )}
             </div>
-          ))
+          </div>
         )}
 
-        {isLoading && (
+        {isWaitingForText && (
           <div className="flex justify-start">
             <div className="bg-muted max-w-md lg:max-w-2xl px-4 py-3 rounded-lg">
               <div className="flex items-center gap-3">
@@ -227,7 +316,7 @@ export default function Chat() {
         <div ref={messagesEndRef} />
       </div>
 
-      <form onSubmit={handleSubmit} className="border-t border-border p-4">
+      <form onSubmit={onSubmit} className="border-t border-border p-4">
         <div className="flex space-x-2">
           <input
             type="text"
@@ -237,13 +326,24 @@ export default function Chat() {
             className="flex-1 px-3 py-2 bg-input border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring text-foreground placeholder:text-muted-foreground"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
-          >
-            Send
-          </button>
+          {isLoading ? (
+            // Aborting the request also stops generation on the server
+            <button
+              type="button"
+              onClick={stop}
+              className="px-4 py-2 border border-border rounded-md hover:bg-muted transition-colors"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
+            >
+              Send
+            </button>
+          )}
         </div>
       </form>
     </div>
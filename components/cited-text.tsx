@@ -0,0 +1,55 @@
+import { Fragment } from "react";
+import { CITATION_PATTERN } from "@/lib/citations";
+
+interface CitedTextProps {
+  text: string;
+  // Citation numbers that map to a displayed source
+  validCitations: Set<number>;
+  onCitationClick?: (citation: number) => void;
+}
+
+/**
+ * Render answer text with [n] citation markers turned into clickable
+ * superscripts. Markers that do not match a source are shown as plain text.
+ */
+export default function CitedText({
+  text,
+  validCitations,
+  onCitationClick,
+}: CitedTextProps) {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const citations = match[1]
+      .split(",")
+      .map((part) => Number(part.trim()));
+    if (!citations.every((citation) => validCitations.has(citation))) {
+      continue;
+    }
+
+    const start = match.index ?? 0;
+    parts.push(text.slice(lastIndex, start));
+    parts.push(
+      <sup key={start} className="ml-0.5">
+        {citations.map((citation, index) => (
+          <Fragment key={citation}>
+            {index > 0 && ","}
+            <button
+              type="button"
+              onClick={() => onCitationClick?.(citation)}
+              className="text-primary hover:underline font-medium"
+              title={`Show source ${citation}`}
+            >
+              {citation}
+            </button>
+          </Fragment>
+        ))}
+      </sup>
+    );
+    lastIndex = start + match[0].length;
+  }
+
+  parts.push(text.slice(lastIndex));
+  return <>{parts}</>;
+}
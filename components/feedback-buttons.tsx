@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import type { Message } from "@ai-sdk/react";
+import type {
+  AnswerMetadataAnnotation,
+  FeedbackRating,
+  FeedbackRequest,
+} from "@/types/chat";
+import { getMessageAnnotation } from "@/lib/annotations";
+
+interface FeedbackButtonsProps {
+  conversationId?: string;
+  // Finished assistant message being rated
+  message: Message;
+}
+
+/**
+ * Thumbs up/down for an assistant answer with an optional comment. Only
+ * answers saved in a conversation can be rated: the server looks up their
+ * question, sources, prompt version and model so poor answers can be
+ * reproduced later.
+ */
+export default function FeedbackButtons({
+  conversationId,
+  message,
+}: FeedbackButtonsProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState("");
+  const [commentSent, setCommentSent] = useState(false);
+  const [status, setStatus] = useState<"idle" | "sending" | "sent" | "failed">(
+    "idle"
+  );
+
+  // Streamed answers learn their saved id from the metadata; restored ones
+  // already carry it as their message id
+  const metadata = getMessageAnnotation<AnswerMetadataAnnotation>(
+    message,
+    "answer-metadata"
+  );
+  const messageId = metadata ? metadata.messageId : message.id;
+  if (!conversationId || !messageId) return null;
+
+  const submit = async (selected: FeedbackRating, withComment = false) => {
+    const feedback: FeedbackRequest = {
+      rating: selected,
+      comment: withComment ? comment : undefined,
+      conversationId,
+      messageId,
+    };
+
+    setRating(selected);
+    setStatus("sending");
+    try {
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(feedback),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setStatus("sent");
+      if (withComment) setCommentSent(true);
+    } catch (error) {
+      console.error("Failed to send feedback:", error);
+      setStatus("failed");
+    }
+  };
+
+  const buttonClass = (value: FeedbackRating) =>
+    `px-1.5 py-0.5 rounded hover:bg-black/5 disabled:cursor-not-allowed transition-opacity ${
+      rating && rating !== value ? "opacity-40" : ""
+    }`;
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          aria-label="Good answer"
+          aria-pressed={rating === "up"}
+          disabled={status === "sending"}
+          onClick={() => submit("up")}
+          className={buttonClass("up")}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          aria-label="Bad answer"
+          aria-pressed={rating === "down"}
+          disabled={status === "sending"}
+          onClick={() => submit("down")}
+          className={buttonClass("down")}
+        >
+          👎
+        </button>
+        {status === "sent" && <span className="opacity-70">Thanks for the feedback</span>}
+        {status === "failed" && (
+          <span className="text-red-600">Could not send feedback</span>
+        )}
+      </div>
+
+      {/* Offer a comment once rated; the store keeps the latest submission */}
+      {rating && status === "sent" && !commentSent && (
+        <form
+          className="mt-2 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (comment.trim()) submit(rating, true);
+          }}
+        >
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What could be better? (optional)"
+            rows={2}
+            maxLength={2000}
+            className="flex-1 p-2 border border-border rounded-md bg-background text-foreground"
+          />
+          <button
+            type="submit"
+            disabled={!comment.trim()}
+            className="self-end px-2 py-1 border border-border rounded-md hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
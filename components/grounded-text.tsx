@@ -0,0 +1,89 @@
+import { Fragment } from "react";
+import { CITATION_PATTERN } from "@/lib/citations";
+import { findTextSpan } from "@/lib/utils";
+import type { GroundedClaim } from "@/types/chat";
+
+interface GroundedTextProps {
+  text: string;
+  claims?: GroundedClaim[];
+  // Renders unmarked and marked stretches of text, e.g. to add citations
+  renderText?: (text: string) => React.ReactNode;
+}
+
+interface MarkedRange {
+  start: number;
+  end: number;
+  claim: GroundedClaim;
+}
+
+/**
+ * Locate the sentences of claims that the grounding check could not fully
+ * back with a source.
+ */
+function findMarkedRanges(text: string, claims: GroundedClaim[]): MarkedRange[] {
+  const ranges: MarkedRange[] = [];
+  // Unsupported claims take precedence when sentences overlap
+  const flagged = [
+    ...claims.filter((claim) => claim.support === "unsupported"),
+    ...claims.filter((claim) => claim.support === "partial"),
+  ];
+
+  for (const claim of flagged) {
+    const span =
+      findTextSpan(text, claim.sentence) ??
+      findTextSpan(text, claim.sentence.replace(CITATION_PATTERN, ""));
+    if (!span) continue;
+    if (ranges.some((range) => span.start < range.end && range.start < span.end)) {
+      continue;
+    }
+    ranges.push({ ...span, claim });
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Render answer text with sentences the grounding check flagged as
+ * unsupported (red) or only partly supported (amber) underlined.
+ */
+export default function GroundedText({
+  text,
+  claims = [],
+  renderText = (segment) => segment,
+}: GroundedTextProps) {
+  const ranges = findMarkedRanges(text, claims);
+  if (!ranges.length) return <>{renderText(text)}</>;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const { start, end, claim } of ranges) {
+    parts.push(
+      <Fragment key={`text-${lastIndex}`}>
+        {renderText(text.slice(lastIndex, start))}
+      </Fragment>
+    );
+    parts.push(
+      <mark
+        key={start}
+        className={`bg-transparent text-inherit underline decoration-wavy underline-offset-4 ${
+          claim.support === "unsupported"
+            ? "decoration-red-500"
+            : "decoration-amber-500"
+        }`}
+        title={
+          claim.support === "unsupported"
+            ? `Not supported by the retrieved sources: ${claim.claim}`
+            : `Only partly supported by the retrieved sources: ${claim.claim}`
+        }
+      >
+        {renderText(text.slice(start, end))}
+      </mark>
+    );
+    lastIndex = end;
+  }
+  parts.push(
+    <Fragment key={`text-${lastIndex}`}>{renderText(text.slice(lastIndex))}</Fragment>
+  );
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,138 @@
+import type { DailyForecast, ItineraryResult } from "@/types/agent";
+import type { ItineraryLeg } from "@/types/itinerary";
+import { LEVEL_STYLES, getWeatherIcon } from "./advisory-styles";
+
+function formatNights(nights: number) {
+  if (nights === 0) return "Day trip";
+  return `${nights} ${nights === 1 ? "night" : "nights"}`;
+}
+
+function ForecastDay({ day }: { day: DailyForecast }) {
+  return (
+    <div
+      className="shrink-0 w-20 p-2 rounded-lg bg-white border border-blue-100 text-center text-xs text-gray-700"
+      title={day.condition}
+    >
+      <div className="font-medium text-gray-500">{day.date.slice(5)}</div>
+      <div className="text-xl">{getWeatherIcon(day.condition)}</div>
+      <div>
+        <span className="font-semibold text-blue-600">{day.temperatureMax}°</span>
+        <span className="text-gray-400"> / {day.temperatureMin}°</span>
+      </div>
+      {day.precipitationProbability !== null && (
+        <div className="text-gray-500">💧 {day.precipitationProbability}%</div>
+      )}
+    </div>
+  );
+}
+
+function LegEntry({ leg, index }: { leg: ItineraryLeg; index: number }) {
+  const level = leg.advisory?.level ?? null;
+  const styling = LEVEL_STYLES[level ?? "none"];
+  return (
+    <li className="relative -ml-3.5 pl-10 pb-8 last:pb-0">
+      <span
+        className={`absolute left-0 top-0 flex h-7 w-7 items-center justify-center rounded-full ${styling.levelBg} text-white text-xs font-bold`}
+      >
+        {index + 1}
+      </span>
+
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+        <h4 className="font-bold text-lg text-gray-800">{leg.country}</h4>
+        {leg.forecast && leg.forecast.city !== leg.country && (
+          <span className="text-sm text-gray-500">{leg.forecast.city}</span>
+        )}
+        <span className="text-sm text-gray-500">
+          {leg.startDate} → {leg.endDate} · {formatNights(leg.nights)}
+        </span>
+      </div>
+
+      {level ? (
+        <div className={`inline-block mt-2 px-3 py-1 rounded-full ${styling.levelBg} text-white text-xs font-semibold`}>
+          {styling.icon} Level {level}: {leg.advisory?.levelLabel}
+        </div>
+      ) : (
+        <div className="mt-2 text-xs text-gray-500">No advisory level found</div>
+      )}
+
+      {leg.regionWarnings.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm text-gray-700">
+          {leg.regionWarnings.map((region) => (
+            <li key={region.region} className="flex items-start gap-2">
+              <span className={`shrink-0 px-2 rounded-full ${LEVEL_STYLES[region.level].levelBg} text-white text-xs font-semibold`}>
+                Level {region.level}
+              </span>
+              <span>
+                {region.region}
+                {region.reason && <span className="text-gray-500"> ({region.reason})</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {leg.forecast && leg.forecast.days.length > 0 && (
+        <div className="mt-3 flex gap-2 overflow-x-auto pb-1">
+          {leg.forecast.days.map((day) => (
+            <ForecastDay key={day.date} day={day} />
+          ))}
+        </div>
+      )}
+
+      {leg.notes.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-gray-500">
+          {leg.notes.map((note) => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * A trip's risk report as a timeline: one entry per leg with its dates,
+ * advisory level, Level 3-4 regional warnings and daily forecast, and any
+ * problems with the plan's dates above it.
+ */
+export default function ItineraryTimeline({ result }: { result: ItineraryResult }) {
+  if (result.status !== "ok") {
+    return (
+      <div className="p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-600">
+        {result.message}
+      </div>
+    );
+  }
+
+  const { itinerary } = result;
+  const styling = LEVEL_STYLES[itinerary.highestLevel ?? "none"];
+  return (
+    <div className={`p-6 rounded-lg shadow-lg border-l-4 ${styling.bgColor} ${styling.borderColor}`}>
+      <div className="flex items-center mb-4">
+        <span className="text-4xl mr-4">🧳</span>
+        <div>
+          <h3 className="font-bold text-xl text-gray-800">Trip Risk Report</h3>
+          <div className="text-sm text-gray-500">
+            {itinerary.startDate} → {itinerary.endDate} · {itinerary.legs.length}{" "}
+            {itinerary.legs.length === 1 ? "leg" : "legs"}
+            {itinerary.highestLevel && <> · highest advisory Level {itinerary.highestLevel}</>}
+          </div>
+        </div>
+      </div>
+
+      {itinerary.warnings.length > 0 && (
+        <ul className="mb-4 p-3 rounded-lg bg-yellow-50 border border-yellow-200 space-y-1 text-sm text-yellow-800">
+          {itinerary.warnings.map((warning) => (
+            <li key={warning}>⚠️ {warning}</li>
+          ))}
+        </ul>
+      )}
+
+      <ol className="relative border-l-2 border-gray-200 ml-3.5">
+        {itinerary.legs.map((leg, index) => (
+          <LegEntry key={`${leg.destination}-${leg.startDate}`} leg={leg} index={index} />
+        ))}
+      </ol>
+    </div>
+  );
+}
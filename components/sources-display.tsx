@@ -1,10 +1,24 @@
-import type { ChatSource } from "@/types/chat";
+import type { ChatSource, RetrieverName } from "@/types/chat";
+
+const RETRIEVER_LABELS: Record<RetrieverName, { short: string; long: string }> = {
+  vector: { short: "S", long: "Semantic search" },
+  keyword: { short: "K", long: "Keyword search" },
+};
 
 interface SourcesDisplayProps {
+  // Sources the model actually saw
   sources: ChatSource[];
+  // Number of retrieved sources left out of the model's context
+  omittedCount?: number;
+  // Citation number of the source to highlight, e.g. after clicking [2]
+  highlightedCitation?: number;
 }
 
-export default function SourcesDisplay({ sources }: SourcesDisplayProps) {
+export default function SourcesDisplay({
+  sources,
+  omittedCount = 0,
+  highlightedCitation,
+}: SourcesDisplayProps) {
   if (!sources.length) return null;
 
   return (
@@ -16,21 +30,73 @@ export default function SourcesDisplay({ sources }: SourcesDisplayProps) {
               href={source.url}
               target="_blank"
               rel="noopener noreferrer"
-              className="inline-flex items-center gap-1 px-2 py-1 bg-muted/50 hover:bg-muted text-xs rounded-md border border-border/50 hover:border-border transition-all"
+              className={`inline-flex items-center gap-1 px-2 py-1 bg-muted/50 hover:bg-muted text-xs rounded-md border border-border/50 hover:border-border transition-all ${
+                source.citation !== undefined &&
+                source.citation === highlightedCitation
+                  ? "ring-2 ring-primary bg-muted"
+                  : ""
+              }`}
             >
-              <span className="text-muted-foreground">📄</span>
+              {source.citation !== undefined ? (
+                <span className="text-[10px] font-semibold text-primary">
+                  [{source.citation}]
+                </span>
+              ) : (
+                <span className="text-muted-foreground">📄</span>
+              )}
               <span className="max-w-[150px] truncate">{source.title}</span>
               {source.relevancy && (
                 <span className="text-[10px] text-muted-foreground">
                   {Math.round(source.relevancy * 100)}%
                 </span>
               )}
+              {source.truncated && (
+                <span
+                  className="text-[10px] text-muted-foreground"
+                  title="Only part of this source fit in the context"
+                >
+                  partial
+                </span>
+              )}
+              {source.retrievers && source.retrievers.length > 0 && (
+                <span
+                  className="text-[10px] text-muted-foreground"
+                  title={source.retrievers
+                    .map((retriever) => RETRIEVER_LABELS[retriever].long)
+                    .join(" + ")}
+                >
+                  {source.retrievers
+                    .map((retriever) => RETRIEVER_LABELS[retriever].short)
+                    .join("+")}
+                </span>
+              )}
             </a>
 
             {/* Tooltip with full content on hover - positioned to the right */}
             <div className="absolute left-full top-1/2 -translate-y-1/2 ml-2 invisible opacity-0 group-hover:visible group-hover:opacity-100 transition-all duration-200 z-10 w-96">
               <div className="bg-popover text-popover-foreground rounded-lg shadow-lg border border-border p-4 max-h-96 overflow-y-auto">
                 <div className="text-sm font-medium mb-2">{source.title}</div>
+                {source.retrievers && source.retrievers.length > 0 && (
+                  <div className="text-[10px] text-muted-foreground mb-2">
+                    Found by{" "}
+                    {source.retrievers
+                      .map((retriever) => RETRIEVER_LABELS[retriever].long.toLowerCase())
+                      .join(" and ")}
+                  </div>
+                )}
+                {source.expandedChunkIds && source.expandedChunkIds.length > 1 && (
+                  <div className="text-[10px] text-muted-foreground mb-2">
+                    Includes chunks {source.expandedChunkIds[0]}–
+                    {source.expandedChunkIds[source.expandedChunkIds.length - 1]}
+                  </div>
+                )}
+                {source.rerankScore !== undefined && (
+                  <div className="text-[10px] text-muted-foreground mb-2">
+                    Original score {Math.round((source.originalScore ?? 0) * 100)}%
+                    {source.originalRank !== undefined && ` (rank ${source.originalRank})`}
+                    {" → "}reranked {Math.round(source.rerankScore * 100)}%
+                  </div>
+                )}
                 <div className="text-xs text-muted-foreground whitespace-pre-wrap">
                   {source.snippet}
                 </div>
@@ -53,6 +119,12 @@ export default function SourcesDisplay({ sources }: SourcesDisplayProps) {
           </div>
         ))}
       </div>
+      {omittedCount > 0 && (
+        <div className="mt-1 text-[10px] text-muted-foreground">
+          {omittedCount} more {omittedCount === 1 ? "source was" : "sources were"}{" "}
+          retrieved but did not fit in the model&apos;s context
+        </div>
+      )}
     </div>
   );
 }
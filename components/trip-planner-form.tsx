@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import type { TripLeg } from "@/types/itinerary";
+import { MAX_TRIP_LEGS } from "@/lib/itinerary";
+
+interface TripPlannerFormProps {
+  disabled?: boolean;
+  onSubmit: (legs: TripLeg[]) => void;
+}
+
+const emptyLeg = (startDate = ""): TripLeg => ({
+  destination: "",
+  city: "",
+  startDate,
+  endDate: "",
+});
+
+/**
+ * Trip planning mode of the agent chat: an ordered list of destinations
+ * with dates. Each new leg starts on the day the previous one ends.
+ */
+export default function TripPlannerForm({ disabled, onSubmit }: TripPlannerFormProps) {
+  const [legs, setLegs] = useState<TripLeg[]>([emptyLeg()]);
+
+  const updateLeg = (index: number, changes: Partial<TripLeg>) => {
+    setLegs((current) =>
+      current.map((leg, i) => (i === index ? { ...leg, ...changes } : leg))
+    );
+  };
+
+  const isComplete = legs.every(
+    (leg) =>
+      leg.destination.trim() &&
+      leg.startDate &&
+      leg.endDate &&
+      leg.endDate >= leg.startDate
+  );
+
+  const submit = () => {
+    if (!isComplete || disabled) return;
+    onSubmit(
+      legs.map((leg) => ({
+        destination: leg.destination.trim(),
+        city: leg.city?.trim() || undefined,
+        startDate: leg.startDate,
+        endDate: leg.endDate,
+      }))
+    );
+    setLegs([emptyLeg()]);
+  };
+
+  const inputClass =
+    "p-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-800";
+
+  return (
+    <div className="space-y-3">
+      {legs.map((leg, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-3">
+          <span className="w-6 text-gray-500 font-semibold">{index + 1}.</span>
+          <input
+            className={`${inputClass} flex-1 min-w-40`}
+            placeholder="Country, e.g. Japan"
+            value={leg.destination}
+            onChange={(event) => updateLeg(index, { destination: event.target.value })}
+          />
+          <input
+            className={`${inputClass} w-40`}
+            placeholder="City (optional)"
+            value={leg.city ?? ""}
+            onChange={(event) => updateLeg(index, { city: event.target.value })}
+          />
+          <input
+            type="date"
+            aria-label="Arrival date"
+            className={inputClass}
+            value={leg.startDate}
+            onChange={(event) => updateLeg(index, { startDate: event.target.value })}
+          />
+          <input
+            type="date"
+            aria-label="Departure date"
+            className={inputClass}
+            min={leg.startDate || undefined}
+            value={leg.endDate}
+            onChange={(event) => updateLeg(index, { endDate: event.target.value })}
+          />
+          <button
+            className="px-3 py-2 text-gray-500 hover:text-red-600 disabled:opacity-30"
+            aria-label="Remove leg"
+            disabled={legs.length === 1}
+            onClick={() => setLegs((current) => current.filter((_, i) => i !== index))}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-4">
+        <button
+          className="px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors duration-200 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={legs.length >= MAX_TRIP_LEGS}
+          onClick={() =>
+            setLegs((current) => [...current, emptyLeg(current[current.length - 1].endDate)])
+          }
+        >
+          Add destination
+        </button>
+        <button
+          className="px-8 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200 font-semibold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!isComplete || disabled}
+          onClick={submit}
+        >
+          Plan trip
+        </button>
+      </div>
+    </div>
+  );
+}
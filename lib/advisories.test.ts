@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { extractTravelAdvisory, findAdvisoryLevel, splitSentences } from "@/lib/advisories";
+import { findCountry } from "@/lib/countries";
+import type { ChatSource } from "@/types/chat";
+
+const mexico = findCountry("Mexico")!;
+
+function chunk(id: string, snippet: string, title = "Mexico Travel Advisory"): ChatSource {
+  return { id, title, url: `https://example.com/${id}`, snippet };
+}
+
+describe("splitSentences", () => {
+  it("splits at sentence ends followed by a capital", () => {
+    expect(splitSentences("Crime is common.  Be careful! Is it safe? Yes.")).toEqual([
+      "Crime is common.",
+      "Be careful!",
+      "Is it safe?",
+      "Yes.",
+    ]);
+  });
+
+  it("keeps abbreviations followed by lower case in the sentence", () => {
+    expect(splitSentences("Contact the U.S. embassy. Then wait.")).toEqual([
+      "Contact the U.S. embassy.",
+      "Then wait.",
+    ]);
+  });
+});
+
+describe("findAdvisoryLevel", () => {
+  it("reads the first level and its official label", () => {
+    expect(findAdvisoryLevel("Mexico - Level 2: Exercise Increased Caution")).toEqual({
+      level: 2,
+      label: "Exercise Increased Caution",
+    });
+    expect(findAdvisoryLevel("No level here")).toBeNull();
+  });
+});
+
+describe("extractTravelAdvisory", () => {
+  it("extracts the level, date, sections and regional warnings", () => {
+    const advisory = extractTravelAdvisory(mexico, [
+      chunk(
+        "a",
+        [
+          "Mexico - Level 2: Exercise Increased Caution. Last updated: August 22, 2023.",
+          "Violent crime, such as homicide and kidnapping, is widespread.",
+          "Colima state - Level 4: Do not travel due to crime and kidnapping.",
+          "Do not travel to:",
+          "- Guerrero state due to crime",
+          "- Sinaloa state",
+        ].join("\n")
+      ),
+    ]);
+
+    expect(advisory.country).toBe("Mexico");
+    expect(advisory.countryCode).toBe("MX");
+    expect(advisory.level).toBe(2);
+    expect(advisory.levelLabel).toBe("Exercise Increased Caution");
+    expect(advisory.updatedAt).toBe("2023-08-22");
+    expect(advisory.regions).toEqual([
+      { region: "Colima state", level: 4, reason: "crime and kidnapping", chunkId: "a" },
+      { region: "Guerrero state", level: 4, reason: "crime", chunkId: "a" },
+      { region: "Sinaloa state", level: 4, reason: null, chunkId: "a" },
+    ]);
+    expect(advisory.sections.map((section) => section.category)).toEqual([
+      "crime",
+      "kidnapping",
+    ]);
+    expect(advisory.sources).toEqual([
+      {
+        chunkId: "a",
+        title: "Mexico Travel Advisory",
+        url: "https://example.com/a",
+        citation: undefined,
+      },
+    ]);
+  });
+
+  it("reads inline region lists and keeps the first mention of a region", () => {
+    const advisory = extractTravelAdvisory(mexico, [
+      chunk("a", "Reconsider travel to: Jalisco state due to crime; Morelos state."),
+      chunk("b", "Do not travel to: Jalisco state."),
+    ]);
+    expect(advisory.regions).toEqual([
+      { region: "Jalisco state", level: 3, reason: "crime", chunkId: "a" },
+      { region: "Morelos state", level: 3, reason: null, chunkId: "a" },
+    ]);
+  });
+
+  it("ignores chunks that do not mention the country", () => {
+    const advisory = extractTravelAdvisory(mexico, [
+      chunk("a", "Canada - Level 1: Exercise Normal Precautions.", "Canada Travel Advisory"),
+    ]);
+    expect(advisory.level).toBeNull();
+    expect(advisory.sections).toEqual([]);
+    expect(advisory.sources).toEqual([]);
+  });
+
+  it("matches a destination that is not a country by name", () => {
+    const advisory = extractTravelAdvisory("Bali", [
+      chunk("a", "Bali has frequent earthquakes.", "Indonesia Travel Advisory"),
+    ]);
+    expect(advisory.countryCode).toBeNull();
+    expect(advisory.sections).toEqual([
+      { category: "natural_disaster", text: "Bali has frequent earthquakes.", chunkIds: ["a"] },
+    ]);
+  });
+});
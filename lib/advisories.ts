@@ -0,0 +1,267 @@
+import { countryNames } from "@/lib/countries";
+import { RetrievalService, type SearchOptions } from "@/lib/retrieval";
+import type {
+  AdvisoryCategory,
+  AdvisoryLevel,
+  AdvisorySection,
+  RegionalWarning,
+  TravelAdvisory,
+} from "@/types/advisory";
+import type { ChatSource } from "@/types/chat";
+import type { Country } from "@/types/country";
+
+// Official wording of each U.S. State Department advisory level
+export const ADVISORY_LEVEL_LABELS: Record<AdvisoryLevel, string> = {
+  1: "Exercise Normal Precautions",
+  2: "Exercise Increased Caution",
+  3: "Reconsider Travel",
+  4: "Do Not Travel",
+};
+
+// Sentences about each risk category, matched by keyword
+const CATEGORY_PATTERNS: Record<AdvisoryCategory, RegExp> = {
+  crime: /\b(crime|criminal|robber(y|ies)|theft|burglar|assault|homicide|gang)/i,
+  terrorism: /\bterroris/i,
+  civil_unrest: /\b(civil unrest|demonstration|protest|riot|political violence|coup)/i,
+  health: /\b(health|disease|medical|hospital|outbreak|vaccin|malaria|dengue|cholera)/i,
+  kidnapping: /\b(kidnap|hostage|abduct)/i,
+  natural_disaster: /\b(natural disaster|earthquake|tsunami|typhoon|hurricane|cyclone|flood|volcan|wildfire|landslide)/i,
+};
+
+const LEVEL_PATTERN = /\bLevel\s*([1-4])\s*[:\-–—]/i;
+
+// "Colima state - Level 4: Do Not Travel due to crime and kidnapping"
+const REGION_LEVEL_PATTERN =
+  /^(.{2,80}?)\s*[-–—:]\s*Level\s*([1-4])\b[^.]*?(?:\bdue to\s+([^.]+?))?\.?$/i;
+
+// "Do not travel to:" followed by the regions, inline or as a bulleted list
+const REGION_LIST_PATTERN =
+  /^(do not travel|reconsider travel|exercise increased caution)\s+(?:to|in)\b[^:]*:\s*(.*)$/i;
+
+// Labelled lines that look like "<region> - Level N" but are not regions
+const NOT_A_REGION = /\b(summary|advisory|updated?|travel)\b|^level\b/i;
+
+const REGION_LIST_LEVELS: Record<string, AdvisoryLevel> = {
+  "do not travel": 4,
+  "reconsider travel": 3,
+  "exercise increased caution": 2,
+};
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const DATE_PATTERN = new RegExp(
+  "\\b(?:last\\s+updated?|updated|reissued|issued|date)\\b[^.\\n]{0,80}?" +
+    `(\\d{4}-\\d{2}-\\d{2}|(?:${MONTHS.join("|")})\\s+\\d{1,2},?\\s+\\d{4}|\\d{1,2}\\s+(?:${MONTHS.join("|")})\\s+\\d{4})`,
+  "i"
+);
+
+/**
+ * First advisory level mentioned in advisory text, e.g. "Level 2: Exercise
+ * Increased Caution", or null if there is none.
+ */
+export function findAdvisoryLevel(
+  text: string
+): { level: AdvisoryLevel; label: string } | null {
+  const match = text.match(LEVEL_PATTERN);
+  if (!match) return null;
+  const level = Number(match[1]) as AdvisoryLevel;
+  return { level, label: ADVISORY_LEVEL_LABELS[level] };
+}
+
+/**
+ * Build a typed advisory for a country from retrieved advisory chunks,
+ * ranked best first. Chunks that do not mention the country (by any of its
+ * names, in the text or source title) are ignored; the result has no level
+ * and no sections when none do. A destination that is not a resolved
+ * country is matched by the given name only.
+ *
+ * Extraction is rule-based, following the layout of State Department
+ * advisories: the first "Level N:" outside a regional warning is the
+ * country-wide level, regions come from "<region> - Level N" lines and
+ * "Do not travel to:" lists, and sentences are filed under risk categories
+ * by keyword.
+ */
+export function extractTravelAdvisory(
+  country: Country | string,
+  chunks: ChatSource[]
+): TravelAdvisory {
+  const names = typeof country === "string" ? [country] : countryNames(country);
+  const relevant = chunks.filter((chunk) =>
+    mentionsCountry(`${chunk.title}\n${chunk.snippet}`, names)
+  );
+
+  let level: AdvisoryLevel | null = null;
+  let updatedAt: string | null = null;
+  const regions: RegionalWarning[] = [];
+  const sections = new Map<AdvisoryCategory, AdvisorySection>();
+
+  for (const chunk of relevant) {
+    updatedAt ??= findUpdatedDate(chunk.snippet);
+
+    const lines = chunk.snippet.split(/\n+/).map((line) => line.trim());
+    let listLevel: AdvisoryLevel | null = null;
+    for (const line of lines) {
+      if (!line) continue;
+
+      // Bulleted regions under a "Do not travel to:" heading
+      const bullet = line.match(/^[-•*]\s*(.+)$/);
+      if (bullet && listLevel) {
+        regions.push(toRegionalWarning(bullet[1], listLevel, chunk.id));
+        continue;
+      }
+      listLevel = null;
+
+      for (const sentence of splitSentences(line)) {
+        const list = sentence.match(REGION_LIST_PATTERN);
+        if (list) {
+          const listedLevel = REGION_LIST_LEVELS[list[1].toLowerCase()];
+          const items = list[2].split(/;|•/).map((item) => item.trim()).filter(Boolean);
+          if (items.length) {
+            for (const item of items) {
+              regions.push(toRegionalWarning(item, listedLevel, chunk.id));
+            }
+          } else {
+            listLevel = listedLevel;
+          }
+          continue;
+        }
+
+        const region = sentence.match(REGION_LEVEL_PATTERN);
+        if (region && !mentionsCountry(region[1], names) && !NOT_A_REGION.test(region[1])) {
+          regions.push({
+            region: cleanRegion(region[1]),
+            level: Number(region[2]) as AdvisoryLevel,
+            reason: region[3]?.trim() || null,
+            chunkId: chunk.id,
+          });
+          continue;
+        }
+
+        level ??= findAdvisoryLevel(sentence)?.level ?? null;
+        addToSections(sections, sentence, chunk.id);
+      }
+    }
+  }
+
+  return {
+    country: typeof country === "string" ? country : country.name,
+    countryCode: typeof country === "string" ? null : country.alpha2,
+    level,
+    levelLabel: level ? ADVISORY_LEVEL_LABELS[level] : null,
+    updatedAt,
+    sections: (Object.keys(CATEGORY_PATTERNS) as AdvisoryCategory[])
+      .map((category) => sections.get(category))
+      .filter((section): section is AdvisorySection => section !== undefined),
+    regions: dedupeRegions(regions),
+    sources: relevant.map(({ id, title, url, citation }) => ({
+      chunkId: id,
+      title,
+      url,
+      citation,
+    })),
+  };
+}
+
+/**
+ * Retrieve a country's advisory documents and extract its advisory. Searches
+ * separately for the level and regional warnings and for each group of risk
+ * categories, so all of them are likely to be found. Throws a RetrievalError
+ * when the documents cannot be searched; an advisory without sources means
+ * none were found.
+ */
+export async function fetchTravelAdvisory(
+  country: Country,
+  { abortSignal }: SearchOptions = {}
+): Promise<TravelAdvisory> {
+  const result = await new RetrievalService().retrieveContext(
+    [
+      `${country.name} travel advisory level regions do not travel reconsider travel`,
+      `${country.name} crime terrorism civil unrest kidnapping`,
+      `${country.name} health natural disasters`,
+    ],
+    { abortSignal, throwOnError: true }
+  );
+  return extractTravelAdvisory(country, result.sources);
+}
+
+// Sentences of a line, split where a sentence end is followed by a capital,
+// so abbreviations such as "U.S." followed by lower case stay together
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=["“(]?[A-Z])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function mentionsCountry(text: string, names: string[]): boolean {
+  return names.some((name) => {
+    const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    // Abbreviations such as "US" or "UK" are only matched in capitals
+    const flags = /^[A-Z.]+$/.test(name) ? "u" : "iu";
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, flags).test(text);
+  });
+}
+
+function addToSections(
+  sections: Map<AdvisoryCategory, AdvisorySection>,
+  sentence: string,
+  chunkId: string
+): void {
+  for (const [category, pattern] of Object.entries(CATEGORY_PATTERNS) as [
+    AdvisoryCategory,
+    RegExp,
+  ][]) {
+    if (!pattern.test(sentence)) continue;
+    const section = sections.get(category) ?? { category, text: "", chunkIds: [] };
+    // Overlapping chunks repeat sentences
+    if (section.text.includes(sentence)) continue;
+    section.text = section.text ? `${section.text} ${sentence}` : sentence;
+    if (!section.chunkIds.includes(chunkId)) section.chunkIds.push(chunkId);
+    sections.set(category, section);
+  }
+}
+
+function toRegionalWarning(
+  item: string,
+  level: AdvisoryLevel,
+  chunkId: string
+): RegionalWarning {
+  const [region, reason] = item.replace(/\.$/, "").split(/\s+due to\s+/i);
+  return { region: cleanRegion(region), level, reason: reason?.trim() || null, chunkId };
+}
+
+function cleanRegion(region: string): string {
+  return region.replace(/^[-•*\s]+/, "").replace(/[\s,:]+$/, "").trim();
+}
+
+// The same region can be listed in several overlapping chunks; keep the
+// first mention, which comes from the best-ranked chunk
+function dedupeRegions(regions: RegionalWarning[]): RegionalWarning[] {
+  const seen = new Set<string>();
+  return regions.filter((region) => {
+    const key = region.region.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function findUpdatedDate(text: string): string | null {
+  const match = text.match(DATE_PATTERN);
+  return match ? toIsoDate(match[1]) : null;
+}
+
+// "July 26, 2023", "26 July 2023" or "2023-07-26" as YYYY-MM-DD
+function toIsoDate(raw: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const parts = raw.replace(",", "").split(/\s+/);
+  const monthFirst = isNaN(Number(parts[0]));
+  const month = MONTHS.indexOf((monthFirst ? parts[0] : parts[1]).toLowerCase()) + 1;
+  const day = Number(monthFirst ? parts[1] : parts[0]);
+  const year = Number(parts[2]);
+  if (!month || !day || day > 31) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
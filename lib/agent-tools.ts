@@ -0,0 +1,558 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { RetrievalService, type RetrievalResult } from "@/lib/retrieval";
+import type { GroundingEvidence } from "@/lib/grounding";
+import {
+  describeCityWeather,
+  describeForecastCoverage,
+  describeForecastDay,
+  getCityForecast,
+  getCountryWeatherData,
+  getTopCities,
+} from "@/lib/weather";
+import { WeatherError, isAbortError } from "@/lib/errors";
+import { tripLegSchema } from "@/lib/schemas";
+import { logger } from "@/lib/logger";
+import { withSpan } from "@/lib/tracing";
+import { extractTravelAdvisory } from "@/lib/advisories";
+import { formatSuggestions, resolveCountry } from "@/lib/countries";
+import {
+  MAX_TRIP_LEGS,
+  buildItinerary,
+  nightsBetween,
+  notableRegionWarnings,
+} from "@/lib/itinerary";
+import type { ChatSource } from "@/types/chat";
+import type {
+  CountryComparison,
+  CountryComparisonResult,
+  CountryWeatherResult,
+  ItineraryResult,
+  TravelAdvisoryResult,
+  WeatherForecastResult,
+} from "@/types/agent";
+import type { TravelAdvisory } from "@/types/advisory";
+import type { Country } from "@/types/country";
+import type { ItineraryLeg, TripLeg } from "@/types/itinerary";
+
+// What the tools of one request share
+interface AgentToolContext {
+  /**
+   * Search the advisory documents, numbering their citations after those of
+   * earlier tool calls. Retrieval failures are thrown, so tools report an
+   * error rather than that no advisory exists.
+   */
+  searchAdvisoryDocuments(
+    searchQuery: string,
+    abortSignal?: AbortSignal
+  ): Promise<RetrievalResult>;
+  /** Record data a tool returned as evidence for the grounding check */
+  addToolEvidence(title: string, lines: string[]): void;
+}
+
+/**
+ * The travel agent's tools for one request, given the model that answers
+ * (which sets the context budget of each advisory search). Also returns what
+ * the tools collected, for the grounding check: every source they retrieved
+ * and the weather and trip data they returned, which counts as evidence
+ * alongside the advisory documents.
+ */
+export function createAgentTools(model: string) {
+  // Citation numbers continue across tool calls so every [n] is unique
+  // within the answer
+  const validCitations = new Set<number>();
+  let nextCitation = 1;
+  const sources: ChatSource[] = [];
+  const toolEvidence: GroundingEvidence[] = [];
+
+  const context: AgentToolContext = {
+    async searchAdvisoryDocuments(searchQuery, abortSignal) {
+      const result = await new RetrievalService().retrieveContext(searchQuery, {
+        model,
+        firstCitation: nextCitation,
+        abortSignal,
+        throwOnError: true,
+      });
+      sources.push(...result.sources);
+      for (const source of result.sources) {
+        if (source.citation !== undefined) {
+          validCitations.add(source.citation);
+          nextCitation = Math.max(nextCitation, source.citation + 1);
+        }
+      }
+      return result;
+    },
+    addToolEvidence(title, lines) {
+      if (!lines.length) return;
+      toolEvidence.push({
+        id: `tool-${toolEvidence.length + 1}`,
+        title,
+        text: lines.join("\n"),
+      });
+    },
+  };
+
+  return {
+    tools: {
+      searchTravelAdvisories: searchTravelAdvisoriesTool(context),
+      getCountryWeather: getCountryWeatherTool(context),
+      compareCountries: compareCountriesTool(context),
+      getWeatherForecast: getWeatherForecastTool(context),
+      planTrip: planTripTool(context),
+    },
+    sources,
+    toolEvidence,
+    isValidCitation: (citation: number) => validCitations.has(citation),
+  };
+}
+
+// Advisory documents for one country or destination, with the advisory
+// extracted from them
+function searchTravelAdvisoriesTool(context: AgentToolContext) {
+  return tool({
+    description: "Search for travel advisories and information for a specific country or destination. Use this tool whenever a user mentions a country or asks about travel to a specific destination.",
+    parameters: z.object({
+      country: z
+        .string()
+        .describe("The country or destination to search travel advisories for"),
+      query: z
+        .string()
+        .describe("The specific travel query or information needed (e.g., 'travel advisory', 'safety information', 'entry requirements')"),
+    }),
+    execute: ({ country: destination, query }, { abortSignal }) =>
+      withSpan(
+        "tool.searchTravelAdvisories",
+        async (span): Promise<TravelAdvisoryResult> => {
+          // Destinations that are not countries are searched as given
+          const resolution = resolveCountry(destination);
+          const country = resolution.country?.name ?? destination;
+          if (resolution.country) {
+            span.setAttribute("tool.country_code", resolution.country.alpha2);
+          }
+          try {
+            const searchQuery = `${country} travel advisory ${query} safety crime terrorism health requirements entry restrictions regional warnings`;
+
+            // Get comprehensive results
+            const result = await context.searchAdvisoryDocuments(searchQuery, abortSignal);
+            span.setAttribute("tool.sources", result.sources.length);
+
+            if (result.sources.length === 0) {
+              return {
+                status: "not_found",
+                country,
+                message: [
+                  `No specific travel advisory information found for ${country} in the database.`,
+                  formatSuggestions(resolution.suggestions),
+                  "Please check official government travel advisory websites for the most current information.",
+                ].filter(Boolean).join(" "),
+                suggestions: resolution.suggestions.map((c) => c.name),
+              };
+            }
+
+            // Minimal cleaning to preserve content quality
+            const documents = result.contextDocuments.replace(/\s+/g, " ").trim();
+            const advisory = extractTravelAdvisory(
+              resolution.country ?? destination,
+              result.sources
+            );
+            span.setAttributes({
+              "advisory.level": advisory.level ?? undefined,
+              "advisory.regions": advisory.regions.length,
+              "tool.result_length": documents.length,
+            });
+            return { status: "found", country, advisory, documents };
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            logger.error("searchTravelAdvisories failed", { country, error });
+            span.recordException(error);
+            return {
+              status: "error",
+              country,
+              message: `Error retrieving travel advisory information for ${country}. Please try again.`,
+            };
+          }
+        },
+        {
+          attributes: {
+            "tool.name": "searchTravelAdvisories",
+            "tool.country": destination,
+            "tool.query": query,
+          },
+        }
+      ),
+  });
+}
+
+// Current weather in the top cities of a country
+function getCountryWeatherTool(context: AgentToolContext) {
+  return tool({
+    description: "Get current weather information for the top cities in a specific country. Use this tool after providing travel advisory information to give users complete travel planning information.",
+    parameters: z.object({
+      country: z
+        .string()
+        .describe("The country to get weather information for"),
+    }),
+    execute: ({ country: location }, { abortSignal }) =>
+      withSpan(
+        "tool.getCountryWeather",
+        async (span): Promise<CountryWeatherResult> => {
+          const resolution = resolveCountry(location);
+          const country = resolution.country?.name ?? location;
+          try {
+            // Look up the resolved country, so aliases and typos find its cities
+            const topCities = getTopCities(resolution.country?.alpha2 ?? location);
+            if (!topCities) {
+              return {
+                status: "not_found",
+                country,
+                message: `${location} is not a known country or region. ${formatSuggestions(resolution.suggestions)}`.trim(),
+                suggestions: resolution.suggestions.map((c) => c.name),
+              };
+            }
+            span.setAttribute("weather.cities", topCities);
+
+            // Use the real weather service
+            const cities = await getCountryWeatherData(country, topCities, {
+              abortSignal,
+            });
+            context.addToolEvidence(`Current weather in ${country}`, cities.map(describeCityWeather));
+            return { status: "ok", country, cities };
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            logger.error("getCountryWeather failed", { country, error });
+            span.recordException(error);
+            if (error instanceof WeatherError) {
+              return {
+                status: "unavailable",
+                country,
+                message: `Current weather for ${country} is unavailable right now. Continue without weather information.`,
+              };
+            }
+            return {
+              status: "error",
+              country,
+              message: `Error retrieving weather information for ${country}. Please try again.`,
+            };
+          }
+        },
+        {
+          attributes: {
+            "tool.name": "getCountryWeather",
+            "tool.country": location,
+          },
+        }
+      ),
+  });
+}
+
+// Advisories and current weather for several countries side by side
+function compareCountriesTool(context: AgentToolContext) {
+  return tool({
+    description: "Compare travel advisories and current weather for 2 to 5 countries side by side. Use this tool instead of searchTravelAdvisories and getCountryWeather when the user asks which of several countries is safer or better to visit right now.",
+    parameters: z.object({
+      countries: z
+        .array(z.string())
+        .min(2)
+        .max(5)
+        .describe("The countries to compare, e.g. [\"Kenya\", \"Tanzania\"]"),
+    }),
+    execute: ({ countries }, { abortSignal }) =>
+      withSpan(
+        "tool.compareCountries",
+        async (span): Promise<CountryComparisonResult> => {
+          try {
+            // Resolve each name once; "UK" and "United Kingdom" are one column
+            const resolved = new Map<string, Country>();
+            const compared: CountryComparison[] = [];
+            for (const name of countries) {
+              const { country, suggestions } = resolveCountry(name);
+              if (country && resolved.has(country.alpha2)) continue;
+              if (country) resolved.set(country.alpha2, country);
+              compared.push({
+                country: country?.name ?? name,
+                countryCode: country?.alpha2 ?? null,
+                advisory: null,
+                weather: null,
+                notes: country
+                  ? []
+                  : [`${name} is not a known country. ${formatSuggestions(suggestions)}`.trim()],
+                suggestions: suggestions.map((c) => c.name),
+              });
+            }
+
+            // One search per country, in order, so citations are numbered
+            // column by column
+            const documents: string[] = [];
+            for (const entry of compared) {
+              const country = entry.countryCode && resolved.get(entry.countryCode);
+              if (!country) continue;
+              const result = await context.searchAdvisoryDocuments(
+                `${country.name} travel advisory level safety crime terrorism civil unrest health kidnapping natural disasters regional warnings`,
+                abortSignal
+              );
+              const advisory = extractTravelAdvisory(country, result.sources);
+              if (advisory.sources.length) {
+                entry.advisory = advisory;
+                documents.push(`${country.name}:\n${result.contextDocuments.replace(/\s+/g, " ").trim()}`);
+              } else {
+                entry.notes.push(`No travel advisory information found for ${country.name} in the database.`);
+              }
+            }
+
+            await Promise.all(
+              compared.map(async (entry) => {
+                const country = entry.countryCode && resolved.get(entry.countryCode);
+                if (!country) return;
+                try {
+                  const cities = getTopCities(country.alpha2) ?? [country.name];
+                  entry.weather = await getCountryWeatherData(country.name, cities, {
+                    abortSignal,
+                  });
+                  context.addToolEvidence(
+                    `Current weather in ${country.name}`,
+                    entry.weather.map(describeCityWeather)
+                  );
+                } catch (error) {
+                  if (isAbortError(error)) throw error;
+                  logger.error("compareCountries weather failed", {
+                    country: country.name,
+                    error,
+                  });
+                  entry.notes.push(`Current weather for ${country.name} is unavailable.`);
+                }
+              })
+            );
+
+            span.setAttributes({
+              "compare.countries": compared.map((entry) => entry.country),
+              "compare.advisories": compared.filter((entry) => entry.advisory).length,
+            });
+            return { status: "ok", countries: compared, documents: documents.join("\n\n") };
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            logger.error("compareCountries failed", { countries, error });
+            span.recordException(error);
+            return {
+              status: "error",
+              message: `Error comparing ${countries.join(", ")}. Please try again.`,
+            };
+          }
+        },
+        {
+          attributes: {
+            "tool.name": "compareCountries",
+            "tool.countries": countries,
+          },
+        }
+      ),
+  });
+}
+
+// Daily forecast for a country or one of its cities on travel dates
+function getWeatherForecastTool(context: AgentToolContext) {
+  return tool({
+    description: "Get the daily weather forecast for a country (or a city in it) on specific travel dates. Forecasts reach about two weeks ahead. Use this instead of getCountryWeather when the user asks about weather on future dates.",
+    parameters: z.object({
+      country: z.string().describe("The country or destination"),
+      city: tripLegSchema.shape.city,
+      startDate: tripLegSchema.shape.startDate,
+      endDate: tripLegSchema.shape.endDate,
+    }),
+    execute: ({ country: location, city, startDate, endDate }, { abortSignal }) =>
+      withSpan(
+        "tool.getWeatherForecast",
+        async (span): Promise<WeatherForecastResult> => {
+          const resolution = resolveCountry(location);
+          const country = resolution.country?.name ?? location;
+          try {
+            const forecastCity =
+              city ?? getTopCities(resolution.country?.alpha2 ?? location)?.[0];
+            if (!forecastCity) {
+              return {
+                status: "not_found",
+                country,
+                message: `${location} is not a known country or region. ${formatSuggestions(resolution.suggestions)}`.trim(),
+                suggestions: resolution.suggestions.map((c) => c.name),
+              };
+            }
+            span.setAttribute("weather.city", forecastCity);
+            const forecast = await getCityForecast(forecastCity, country, startDate, endDate, {
+              abortSignal,
+            });
+            const message = describeForecastCoverage(startDate, endDate, forecast);
+            context.addToolEvidence(`Weather forecast for ${forecast.city}, ${country}`, [
+              ...forecast.days.map((day) => describeForecastDay(forecast.city, day)),
+              ...(message ? [message] : []),
+            ]);
+            return {
+              status: "ok",
+              country,
+              startDate,
+              endDate,
+              forecast,
+              message,
+            };
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            logger.error("getWeatherForecast failed", { country, error });
+            span.recordException(error);
+            if (error instanceof WeatherError) {
+              return {
+                status: "unavailable",
+                country,
+                message: `The forecast for ${country} is unavailable right now. Continue without it.`,
+              };
+            }
+            return {
+              status: "error",
+              country,
+              message: `Error retrieving the forecast for ${country}. Please try again.`,
+            };
+          }
+        },
+        {
+          attributes: {
+            "tool.name": "getWeatherForecast",
+            "tool.country": location,
+            "tool.start_date": startDate,
+            "tool.end_date": endDate,
+          },
+        }
+      ),
+  });
+}
+
+// Advisory, regional warnings and forecast for each leg of a trip
+function planTripTool(context: AgentToolContext) {
+  return tool({
+    description: "Build a risk report for a multi-leg trip: the travel advisory, notable regional warnings and the weather forecast for each destination on its dates. Use this tool when the user gives an ordered list of destinations with dates.",
+    parameters: z.object({
+      legs: z
+        .array(tripLegSchema)
+        .min(1)
+        .max(MAX_TRIP_LEGS)
+        .describe("The trip's destinations in travel order, with dates"),
+    }),
+    execute: ({ legs }: { legs: TripLeg[] }, { abortSignal }) =>
+      withSpan(
+        "tool.planTrip",
+        async (span): Promise<ItineraryResult> => {
+          try {
+            const itineraryLegs: ItineraryLeg[] = [];
+            const documents: string[] = [];
+
+            // One advisory search per leg, in travel order, so citations
+            // are numbered leg by leg; a country visited twice is
+            // searched once
+            const advisories = new Map<string, TravelAdvisory | null>();
+            for (const leg of legs) {
+              const { country, suggestions } = resolveCountry(leg.destination);
+              const itineraryLeg: ItineraryLeg = {
+                destination: leg.destination,
+                country: country?.name ?? leg.destination,
+                countryCode: country?.alpha2 ?? null,
+                startDate: leg.startDate,
+                endDate: leg.endDate,
+                nights: nightsBetween(leg.startDate, leg.endDate),
+                advisory: null,
+                regionWarnings: [],
+                forecast: null,
+                notes: [],
+                suggestions: country ? [] : suggestions.map((c) => c.name),
+              };
+              itineraryLegs.push(itineraryLeg);
+
+              const key = country?.alpha2 ?? leg.destination.toLowerCase();
+              if (!advisories.has(key)) {
+                const result = await context.searchAdvisoryDocuments(
+                  `${itineraryLeg.country} travel advisory level regions do not travel reconsider travel safety crime terrorism health`,
+                  abortSignal
+                );
+                const advisory = extractTravelAdvisory(country ?? leg.destination, result.sources);
+                const found = advisory.sources.length > 0;
+                advisories.set(key, found ? advisory : null);
+                if (found) {
+                  documents.push(
+                    `${itineraryLeg.country}:\n${result.contextDocuments.replace(/\s+/g, " ").trim()}`
+                  );
+                }
+              }
+              itineraryLeg.advisory = advisories.get(key) ?? null;
+              itineraryLeg.regionWarnings = notableRegionWarnings(itineraryLeg.advisory);
+              if (!itineraryLeg.advisory) {
+                itineraryLeg.notes.push(
+                  [
+                    `No travel advisory information found for ${itineraryLeg.country} in the database.`,
+                    country ? "" : formatSuggestions(suggestions),
+                  ].filter(Boolean).join(" ")
+                );
+              }
+            }
+
+            await Promise.all(
+              legs.map(async (leg, i) => {
+                const itineraryLeg = itineraryLegs[i];
+                // Destinations that are not countries, e.g. "Bali", are
+                // looked up as places
+                const city =
+                  leg.city ??
+                  getTopCities(itineraryLeg.countryCode ?? leg.destination)?.[0] ??
+                  leg.destination;
+                try {
+                  itineraryLeg.forecast = await getCityForecast(
+                    city,
+                    itineraryLeg.country,
+                    leg.startDate,
+                    leg.endDate,
+                    { abortSignal }
+                  );
+                  const coverage = describeForecastCoverage(
+                    leg.startDate,
+                    leg.endDate,
+                    itineraryLeg.forecast
+                  );
+                  if (coverage) itineraryLeg.notes.push(coverage);
+                } catch (error) {
+                  if (isAbortError(error)) throw error;
+                  logger.error("planTrip forecast failed", { city, error });
+                  itineraryLeg.notes.push(`The forecast for ${city} is unavailable.`);
+                }
+              })
+            );
+
+            const itinerary = buildItinerary(itineraryLegs);
+            context.addToolEvidence(`Trip from ${itinerary.startDate} to ${itinerary.endDate}`, [
+              ...itinerary.legs.flatMap(({ forecast, ...leg }, i) => [
+                `Leg ${i + 1}: ${leg.country}, ${leg.startDate} to ${leg.endDate}, ${leg.nights} ${leg.nights === 1 ? "night" : "nights"}`,
+                ...(forecast
+                  ? forecast.days.map((day) => describeForecastDay(forecast.city, day))
+                  : []),
+                ...leg.notes,
+              ]),
+              ...itinerary.warnings,
+            ]);
+            span.setAttributes({
+              "trip.legs": itinerary.legs.length,
+              "trip.highest_level": itinerary.highestLevel ?? undefined,
+              "trip.warnings": itinerary.warnings.length,
+            });
+            return { status: "ok", itinerary, documents: documents.join("\n\n") };
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            logger.error("planTrip failed", { legs: legs.length, error });
+            span.recordException(error);
+            return {
+              status: "error",
+              message: "Error building the trip report. Please try again.",
+            };
+          }
+        },
+        {
+          attributes: {
+            "tool.name": "planTrip",
+            "tool.destinations": legs.map((leg) => leg.destination),
+          },
+        }
+      ),
+  });
+}
@@ -0,0 +1,36 @@
+import type { Message } from "@ai-sdk/react";
+import type { JSONValue } from "ai";
+import type { MessageAnnotation } from "@/types/chat";
+
+/**
+ * Annotation as the JSON value data streams and useChat messages carry.
+ * Annotations only hold JSON data, but TypeScript does not treat interfaces
+ * with optional fields as JSONValue, hence the cast.
+ */
+export function toJsonAnnotation(annotation: MessageAnnotation): JSONValue {
+  return annotation as unknown as JSONValue;
+}
+
+/**
+ * Latest message annotation of the given type. Annotations can be sent more
+ * than once (e.g. a "checking" status followed by the result), so the last
+ * one wins.
+ */
+export function getMessageAnnotation<T extends MessageAnnotation>(
+  message: Message,
+  type: T["type"]
+): T | undefined {
+  const annotations = message.annotations ?? [];
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    if (
+      typeof annotation === "object" &&
+      annotation !== null &&
+      !Array.isArray(annotation) &&
+      annotation.type === type
+    ) {
+      return annotation as unknown as T;
+    }
+  }
+  return undefined;
+}
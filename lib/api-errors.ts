@@ -0,0 +1,32 @@
+import type { ApiError, ApiErrorResponse } from "@/types/api";
+
+/**
+ * Extract the API error envelope from whatever a failed request produced:
+ * a parsed response body, its JSON text, or an Error carrying that text
+ * (useChat reports both HTTP and mid-stream errors this way). Returns null
+ * for errors that did not come from the API, e.g. network failures.
+ */
+export function parseApiError(value: unknown): ApiError | null {
+  if (value instanceof Error) return parseApiError(value.message);
+  if (typeof value === "string") {
+    try {
+      return parseApiError(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  const error = (value as ApiErrorResponse | null)?.error;
+  if (
+    typeof error?.code === "string" &&
+    typeof error.message === "string" &&
+    typeof error.requestId === "string"
+  ) {
+    return error;
+  }
+  return null;
+}
+
+/** Read the error envelope from a non-2xx fetch response. */
+export async function readApiError(response: Response): Promise<ApiError | null> {
+  return parseApiError(await response.text().catch(() => ""));
+}
@@ -0,0 +1,27 @@
+import { JsonApiKeyStore } from "@/lib/json-api-key-store";
+import type { ApiKeyLimits, ApiKeyRecord, ApiKeySummary } from "@/types/auth";
+
+/**
+ * Persistence for issued API keys. Only a hash of each key is stored.
+ */
+export interface ApiKeyStore {
+  list(): Promise<ApiKeySummary[]>;
+  /** Issue a key. The plaintext key is returned once and never stored */
+  create(
+    name: string,
+    limits?: ApiKeyLimits
+  ): Promise<{ key: string; record: ApiKeySummary }>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  /** Active (not revoked) key matching the plaintext key */
+  findByKey(key: string): Promise<ApiKeyRecord | null>;
+  /** Returns null for unknown ids; revoking twice keeps the first date */
+  revoke(id: string): Promise<ApiKeySummary | null>;
+}
+
+/**
+ * Create the API key store. Keys are kept in a JSON file at
+ * API_KEY_STORE_PATH (default .data/api-keys.json).
+ */
+export function createApiKeyStore(): ApiKeyStore {
+  return new JsonApiKeyStore();
+}
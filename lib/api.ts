@@ -0,0 +1,134 @@
+import { randomUUID } from "crypto";
+import type { z } from "zod";
+import {
+  RateLimitError,
+  ValidationError,
+  isAbortError,
+  toAppError,
+} from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getActiveSpan } from "@/lib/tracing";
+import type { ApiErrorResponse } from "@/types/api";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Accept a caller's request id only if it looks like an id, not arbitrary text
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+/**
+ * Id used to correlate a request's logs with the error the client sees.
+ * An X-Request-Id sent by the caller (e.g. a proxy) is reused.
+ */
+export function getRequestId(req: Request): string {
+  const incoming = req.headers.get(REQUEST_ID_HEADER);
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+/**
+ * Parse and validate a JSON request body. An empty body is treated as `{}`
+ * so schemas with only optional fields accept it.
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T
+): Promise<z.output<T>> {
+  const text = await req.text();
+  let body: unknown = {};
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ValidationError("Request body must be valid JSON");
+    }
+  }
+  return validate(schema, body, "Invalid request body");
+}
+
+/** Validate the query string of a request. */
+export function parseSearchParams<T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T
+): z.output<T> {
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  return validate(schema, params, "Invalid query parameters");
+}
+
+export function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  message: string
+): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    }));
+    // Lead with the first problem so the message is useful on its own
+    const first = details[0];
+    throw new ValidationError(
+      first ? `${message}: ${first.path ? `${first.path}: ` : ""}${first.message}` : message,
+      details
+    );
+  }
+  return result.data;
+}
+
+export function toErrorBody(error: unknown, requestId: string): ApiErrorResponse {
+  const appError = toAppError(error);
+  return {
+    error: {
+      code: appError.code,
+      message: appError.message,
+      requestId,
+      ...(appError instanceof ValidationError && appError.details.length
+        ? { details: appError.details }
+        : {}),
+    },
+  };
+}
+
+/**
+ * JSON error response in the shared envelope. Unexpected errors are logged
+ * with the request id and recorded on the active span; client errors
+ * (validation, not found) are not.
+ */
+export function errorResponse(
+  error: unknown,
+  requestId: string,
+  context: string
+): Response {
+  const appError = toAppError(error);
+  if (appError.status >= 500) {
+    logger.error(context, { requestId, error });
+    getActiveSpan()?.recordException(error);
+  }
+  const headers: Record<string, string> = { [REQUEST_ID_HEADER]: requestId };
+  if (appError instanceof RateLimitError) {
+    headers["Retry-After"] = String(appError.retryAfterSeconds);
+  }
+  return Response.json(toErrorBody(appError, requestId), {
+    status: appError.status,
+    headers,
+  });
+}
+
+/**
+ * Error message for a failure after a stream has started, e.g. the
+ * createDataStreamResponse `onError` callback. The envelope is serialized
+ * so clients can parse it from the stream's error text. A client that
+ * disconnected is not an error worth logging.
+ */
+export function streamErrorMessage(
+  error: unknown,
+  requestId: string,
+  context: string
+): string {
+  if (isAbortError(error)) {
+    logger.debug(`${context}: cancelled`, { requestId });
+    return JSON.stringify(toErrorBody(error, requestId));
+  }
+  logger.error(context, { requestId, error });
+  getActiveSpan()?.recordException(error);
+  return JSON.stringify(toErrorBody(error, requestId));
+}
@@ -0,0 +1,241 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { createApiKeyStore } from "@/lib/api-keys";
+import {
+  ForbiddenError,
+  RateLimitError,
+  UnauthorizedError,
+} from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getActiveSpan } from "@/lib/tracing";
+import { getUsageMeter } from "@/lib/usage-meter";
+import {
+  getDefaultLimits,
+  getRateLimitStore,
+  secondsUntilNextUtcDay,
+  utcDay,
+} from "@/lib/rate-limit";
+import type { ApiKeyRecord, Principal } from "@/types/auth";
+
+export const SESSION_COOKIE = "goaware_session";
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+/** API_AUTH=true requires an API key or session on every API route. */
+export function isAuthEnabled(): boolean {
+  return process.env.API_AUTH === "true";
+}
+
+/**
+ * Identify the caller. With authentication enabled this is the API key from
+ * `Authorization: Bearer <key>` / `X-API-Key`, or the key behind a session
+ * cookie; otherwise callers are anonymous and limited per client address
+ * (behind a trusted proxy) or all together.
+ */
+export async function authenticate(req: Request): Promise<Principal> {
+  if (!isAuthEnabled()) {
+    const address = getClientAddress(req);
+    return {
+      id: address ? `ip:${address}` : "anonymous",
+      via: "anonymous",
+      limits: getDefaultLimits(),
+    };
+  }
+
+  const store = createApiKeyStore();
+  const key = getPresentedKey(req);
+  if (key) {
+    const record = await store.findByKey(key);
+    if (!record) throw new UnauthorizedError("Invalid or revoked API key");
+    return toPrincipal(record, "api-key");
+  }
+
+  const keyId = verifySessionToken(getCookie(req, SESSION_COOKIE));
+  if (keyId) {
+    const record = await store.get(keyId);
+    if (record && !record.revokedAt) return toPrincipal(record, "session");
+  }
+
+  throw new UnauthorizedError(
+    "Authentication required. Send an API key as \"Authorization: Bearer <key>\" or sign in at /login."
+  );
+}
+
+/**
+ * Authenticate the caller and charge the request against its limits:
+ * a token bucket for bursts, plus daily request and (for routes that call
+ * a model) token quotas. Throws a RateLimitError when a limit is reached.
+ */
+export async function authorizeRequest(
+  req: Request,
+  { model = false }: { model?: boolean } = {}
+): Promise<Principal> {
+  const principal = await authenticate(req);
+  const { requestsPerMinute, burst, dailyRequests, dailyTokens } =
+    principal.limits;
+  const store = getRateLimitStore();
+  const day = utcDay();
+
+  const usage = await store.getDailyUsage(principal.id, day);
+  if (dailyRequests > 0 && usage.requests >= dailyRequests) {
+    throw new RateLimitError(
+      "quota_exceeded",
+      `Daily request quota of ${dailyRequests} reached`,
+      secondsUntilNextUtcDay()
+    );
+  }
+  if (model && dailyTokens > 0 && usage.tokens >= dailyTokens) {
+    throw new RateLimitError(
+      "quota_exceeded",
+      `Daily token quota of ${dailyTokens} reached`,
+      secondsUntilNextUtcDay()
+    );
+  }
+
+  if (requestsPerMinute > 0) {
+    const decision = await store.takeToken(
+      principal.id,
+      Math.max(1, burst),
+      requestsPerMinute / 60
+    );
+    if (!decision.allowed) {
+      throw new RateLimitError(
+        "rate_limited",
+        "Too many requests. Slow down and try again shortly.",
+        decision.retryAfterSeconds
+      );
+    }
+  }
+
+  await store.addDailyUsage(principal.id, day, { requests: 1 });
+  getActiveSpan()?.setAttribute("enduser.id", principal.id);
+  getUsageMeter()?.setPrincipal(principal);
+  return principal;
+}
+
+/**
+ * Count model tokens against the caller's daily token quota. The request
+ * that crosses the quota still completes; later ones are refused.
+ */
+export async function recordTokenUsage(
+  principal: Principal,
+  tokens: number
+): Promise<void> {
+  if (!Number.isFinite(tokens) || tokens <= 0) return;
+  try {
+    await getRateLimitStore().addDailyUsage(principal.id, utcDay(), { tokens });
+  } catch (error) {
+    logger.error("Failed to record token usage", { error });
+  }
+}
+
+/**
+ * Allow only callers presenting ADMIN_API_KEY. The admin API is disabled
+ * when it is not set.
+ */
+export function requireAdmin(req: Request): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    throw new ForbiddenError(
+      "The admin API is disabled. Set ADMIN_API_KEY to enable it."
+    );
+  }
+  const presented = getPresentedKey(req);
+  if (!presented) {
+    throw new UnauthorizedError("Admin API key required");
+  }
+  if (!safeEqual(presented, adminKey)) {
+    throw new ForbiddenError("Invalid admin API key");
+  }
+}
+
+/** Whether the caller presented ADMIN_API_KEY. */
+export function isAdminRequest(req: Request): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const presented = getPresentedKey(req);
+  return Boolean(adminKey && presented && safeEqual(presented, adminKey));
+}
+
+/**
+ * Set-Cookie value for a browser session on behalf of an API key. The
+ * cookie holds the key id and expiry, signed with SESSION_SECRET.
+ */
+export function createSessionCookie(keyId: string): string {
+  const ttlHours =
+    Number(process.env.SESSION_TTL_HOURS) || DEFAULT_SESSION_TTL_HOURS;
+  const expires = Date.now() + ttlHours * 60 * 60 * 1000;
+  const payload = `${keyId}.${expires}`;
+  const token = `${payload}.${sign(payload)}`;
+  return serializeCookie(token, Math.floor((expires - Date.now()) / 1000));
+}
+
+export function clearSessionCookie(): string {
+  return serializeCookie("", 0);
+}
+
+export function isSessionSupported(): boolean {
+  return Boolean(process.env.SESSION_SECRET);
+}
+
+function serializeCookie(value: string, maxAgeSeconds: number): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+function verifySessionToken(token: string | undefined): string | null {
+  if (!token || !isSessionSupported()) return null;
+  const [keyId, expires, signature] = token.split(".");
+  if (!keyId || !expires || !signature) return null;
+  if (!safeEqual(signature, sign(`${keyId}.${expires}`))) return null;
+  if (Number(expires) < Date.now()) return null;
+  return keyId;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET ?? "")
+    .update(payload)
+    .digest("base64url");
+}
+
+// Compares digests so the comparison takes the same time for any length
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function getPresentedKey(req: Request): string | null {
+  const authorization = req.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return bearer || req.headers.get("x-api-key")?.trim() || null;
+}
+
+function getCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.get("cookie") ?? "";
+  for (const part of header.split(";")) {
+    const [cookieName, ...value] = part.trim().split("=");
+    if (cookieName === name) return value.join("=");
+  }
+  return undefined;
+}
+
+/**
+ * Address of the client as reported by a trusted reverse proxy. Clients can
+ * send any X-Forwarded-For value, so the headers are only read with
+ * TRUST_PROXY=true, and then only the entry the proxy appended (the last).
+ * Returns null when the address is unknown.
+ */
+function getClientAddress(req: Request): string | null {
+  if (process.env.TRUST_PROXY !== "true") return null;
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return forwarded || req.headers.get("x-real-ip")?.trim() || null;
+}
+
+function toPrincipal(
+  record: ApiKeyRecord,
+  via: "api-key" | "session"
+): Principal {
+  return {
+    id: `key:${record.id}`,
+    keyId: record.id,
+    via,
+    limits: { ...getDefaultLimits(), ...record.limits },
+  };
+}
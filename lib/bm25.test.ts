@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { Bm25Index, tokenize } from "@/lib/bm25";
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and drops stopwords", () => {
+    expect(tokenize("What is the advisory for Côte d'Ivoire?")).toEqual([
+      "advisory",
+      "cote",
+      "d",
+      "ivoire",
+    ]);
+  });
+
+  it("keeps numbers", () => {
+    expect(tokenize("Level 4: Do Not Travel")).toEqual(["level", "4", "not", "travel"]);
+  });
+});
+
+describe("Bm25Index", () => {
+  const docs = [
+    { id: "a", text: "Mexico travel advisory. Level 2: Exercise increased caution." },
+    { id: "b", text: "Japan is safe. Earthquakes are common in Japan." },
+    { id: "c", text: "Colima state - Level 4: Do not travel due to crime and kidnapping." },
+  ];
+  const index = new Bm25Index(docs, (doc) => doc.text);
+
+  it("ranks documents containing the query terms", () => {
+    const hits = index.search("japan earthquakes");
+    expect(hits.map((hit) => hit.item.id)).toEqual(["b"]);
+    expect(hits[0].score).toBeGreaterThan(0);
+  });
+
+  it("scores rarer terms higher", () => {
+    const hits = index.search("level kidnapping");
+    expect(hits.map((hit) => hit.item.id)).toEqual(["c", "a"]);
+  });
+
+  it("limits the number of results", () => {
+    expect(index.search("level travel", 1)).toHaveLength(1);
+  });
+
+  it("returns nothing for stopwords only or an empty index", () => {
+    expect(index.search("what is the")).toEqual([]);
+    expect(new Bm25Index<string>([], (text) => text).search("japan")).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+// Okapi BM25 keyword search over an in-memory set of documents
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has",
+  "have", "in", "is", "it", "its", "of", "on", "or", "that", "the", "this",
+  "to", "was", "were", "will", "with", "what", "about", "can", "do", "does",
+  "i", "me", "my", "you", "your", "we", "our", "there", "their", "how",
+]);
+
+/**
+ * Lowercase, strip diacritics and split on anything that is not a letter or
+ * digit. Numbers are kept so tokens like "level 4" still match exactly.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOPWORDS.has(token));
+}
+
+export interface Bm25Options {
+  /** Term frequency saturation */
+  k1?: number;
+  /** Document length normalisation */
+  b?: number;
+}
+
+export interface Bm25Hit<T> {
+  item: T;
+  score: number;
+}
+
+export class Bm25Index<T> {
+  private items: T[];
+  private termFrequencies: Map<string, number>[];
+  private documentLengths: number[];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength: number;
+  private k1: number;
+  private b: number;
+
+  constructor(
+    items: T[],
+    getText: (item: T) => string,
+    { k1 = 1.2, b = 0.75 }: Bm25Options = {}
+  ) {
+    this.items = items;
+    this.k1 = k1;
+    this.b = b;
+    this.termFrequencies = [];
+    this.documentLengths = [];
+
+    for (const item of items) {
+      const tokens = tokenize(getText(item));
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const token of frequencies.keys()) {
+        this.documentFrequencies.set(
+          token,
+          (this.documentFrequencies.get(token) || 0) + 1
+        );
+      }
+      this.termFrequencies.push(frequencies);
+      this.documentLengths.push(tokens.length);
+    }
+
+    const totalLength = this.documentLengths.reduce((sum, n) => sum + n, 0);
+    this.averageLength = items.length ? totalLength / items.length : 0;
+  }
+
+  search(query: string, numResults: number = 10): Bm25Hit<T>[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (!queryTokens.length || !this.items.length) return [];
+
+    const hits: Bm25Hit<T>[] = [];
+    for (let i = 0; i < this.items.length; i++) {
+      const frequencies = this.termFrequencies[i];
+      const lengthRatio = this.averageLength
+        ? this.documentLengths[i] / this.averageLength
+        : 1;
+      let score = 0;
+
+      for (const token of queryTokens) {
+        const tf = frequencies.get(token);
+        if (!tf) continue;
+        score +=
+          this.idf(token) *
+          ((tf * (this.k1 + 1)) /
+            (tf + this.k1 * (1 - this.b + this.b * lengthRatio)));
+      }
+
+      if (score > 0) {
+        hits.push({ item: this.items[i], score });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, numResults);
+  }
+
+  private idf(token: string): number {
+    const n = this.items.length;
+    const df = this.documentFrequencies.get(token) || 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+}
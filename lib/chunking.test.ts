@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { chunkText } from "@/lib/chunking";
+
+describe("chunkText", () => {
+  it("returns short text as one chunk", () => {
+    expect(chunkText("  Japan is safe.  ", { chunkSize: 100, chunkOverlap: 10 })).toEqual([
+      "Japan is safe.",
+    ]);
+  });
+
+  it("returns no chunks for blank text", () => {
+    expect(chunkText(" \n\n ", { chunkSize: 100, chunkOverlap: 10 })).toEqual([]);
+  });
+
+  it("keeps every chunk within the size and prefers paragraph breaks", () => {
+    const text = ["First paragraph here.", "Second paragraph here.", "Third one."].join("\n\n");
+    const chunks = chunkText(text, { chunkSize: 30, chunkOverlap: 0 });
+    expect(chunks).toEqual(["First paragraph here.", "Second paragraph here.", "Third one."]);
+  });
+
+  it("repeats the end of a chunk at the start of the next", () => {
+    const text = "alpha beta gamma delta epsilon zeta eta theta iota kappa";
+    const chunks = chunkText(text, { chunkSize: 24, chunkOverlap: 8 });
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(24);
+    for (let i = 1; i < chunks.length; i++) {
+      const lastWord = chunks[i - 1].split(" ").at(-1)!;
+      expect(chunks[i].startsWith(lastWord)).toBe(true);
+    }
+    // Nothing is lost
+    expect(chunks.join(" ")).toContain("kappa");
+    expect(chunks[0].startsWith("alpha")).toBe(true);
+  });
+
+  it("hard splits text without separators", () => {
+    expect(chunkText("x".repeat(25), { chunkSize: 10, chunkOverlap: 0 })).toEqual([
+      "x".repeat(10),
+      "x".repeat(10),
+      "x".repeat(5),
+    ]);
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => chunkText("text", { chunkSize: 0, chunkOverlap: 0 })).toThrow();
+    expect(() => chunkText("text", { chunkSize: 10, chunkOverlap: 10 })).toThrow();
+  });
+});
@@ -0,0 +1,106 @@
+export interface ChunkingOptions {
+  /** Target maximum chunk length in characters */
+  chunkSize: number;
+  /** Number of trailing characters repeated at the start of the next chunk */
+  chunkOverlap: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: Number(process.env.INGEST_CHUNK_SIZE) || 1000,
+  chunkOverlap: Number(process.env.INGEST_CHUNK_OVERLAP) || 200,
+};
+
+// Separators tried in order, from the most to the least meaningful boundary
+const SEPARATORS = ["\n\n", "\n", ". ", "? ", "! ", "; ", ", ", " "];
+
+/**
+ * Split text into overlapping chunks of at most `chunkSize` characters.
+ * Text is first broken on the most meaningful boundary available
+ * (paragraphs, then lines, sentences, clauses and words) and the pieces are
+ * then greedily packed, carrying `chunkOverlap` characters of context across
+ * each chunk boundary.
+ */
+export function chunkText(
+  text: string,
+  options: Partial<ChunkingOptions> = {}
+): string[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNKING_OPTIONS.chunkSize;
+  const chunkOverlap =
+    options.chunkOverlap ?? DEFAULT_CHUNKING_OPTIONS.chunkOverlap;
+  if (chunkSize <= 0) {
+    throw new Error("chunkSize must be greater than 0");
+  }
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error("chunkOverlap must be between 0 and chunkSize");
+  }
+
+  const normalized = text.replace(/\r\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  if (!normalized) return [];
+
+  const pieces = splitRecursively(normalized, chunkSize, 0);
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > chunkSize) {
+      chunks.push(current.trim());
+      current = overlapTail(current, chunkOverlap);
+      // Drop the overlap if it would push the next piece over the limit
+      if (current.length + piece.length > chunkSize) {
+        current = "";
+      }
+    }
+    current += piece;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks.filter(Boolean);
+}
+
+/**
+ * Break text into pieces no longer than `chunkSize`, keeping the separator
+ * attached to the end of each piece so joining the pieces restores the text.
+ */
+function splitRecursively(
+  text: string,
+  chunkSize: number,
+  separatorIndex: number
+): string[] {
+  if (text.length <= chunkSize) return [text];
+
+  if (separatorIndex >= SEPARATORS.length) {
+    // No natural boundary left: hard split on character count
+    const parts: string[] = [];
+    for (let i = 0; i < text.length; i += chunkSize) {
+      parts.push(text.slice(i, i + chunkSize));
+    }
+    return parts;
+  }
+
+  const separator = SEPARATORS[separatorIndex];
+  const parts = text.split(separator);
+  if (parts.length === 1) {
+    return splitRecursively(text, chunkSize, separatorIndex + 1);
+  }
+
+  return parts.flatMap((part, index) => {
+    const withSeparator = index < parts.length - 1 ? part + separator : part;
+    return splitRecursively(withSeparator, chunkSize, separatorIndex + 1);
+  });
+}
+
+/**
+ * Take roughly the last `overlap` characters of a chunk, starting at a word
+ * boundary so the next chunk does not begin mid-word.
+ */
+function overlapTail(chunk: string, overlap: number): string {
+  if (overlap === 0) return "";
+  const tail = chunk.slice(-overlap);
+  const firstSpace = tail.indexOf(" ");
+  return firstSpace > 0 && firstSpace < tail.length - 1
+    ? tail.slice(firstSpace + 1)
+    : tail;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { createCitationFilter, filterCitations } from "@/lib/citations";
+
+const isValid = (citation: number) => citation === 1 || citation === 3;
+
+// Feed chunks through a streaming filter and collect what it lets out
+function stream(chunks: string[]): string {
+  const filter = createCitationFilter(isValid);
+  return chunks.map((chunk) => filter.push(chunk)).join("") + filter.flush();
+}
+
+describe("filterCitations", () => {
+  it("keeps valid citations", () => {
+    expect(filterCitations("Japan is safe [1].", isValid)).toBe("Japan is safe [1].");
+  });
+
+  it("drops invalid citations with the space before them", () => {
+    expect(filterCitations("Japan is safe [2].", isValid)).toBe("Japan is safe.");
+  });
+
+  it("filters numbers inside a group", () => {
+    expect(filterCitations("Safe [1, 2, 3].", isValid)).toBe("Safe [1, 3].");
+    expect(filterCitations("Safe [1, 1].", isValid)).toBe("Safe [1].");
+  });
+
+  it("keeps the space when any group of a run survives", () => {
+    expect(filterCitations("Safe [7][3].", isValid)).toBe("Safe [3].");
+    expect(filterCitations("Safe [7][8].", isValid)).toBe("Safe.");
+  });
+
+  it("leaves other brackets alone", () => {
+    expect(filterCitations("See [note] and [a1].", isValid)).toBe("See [note] and [a1].");
+  });
+});
+
+describe("createCitationFilter", () => {
+  it("matches filterCitations however the text is split", () => {
+    const text = "Japan is safe [1]. Crime is low [2]. Earthquakes [7][3] happen [1, 2].";
+    const expected = filterCitations(text, isValid);
+    for (let size = 1; size <= text.length; size++) {
+      const chunks: string[] = [];
+      for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+      expect(stream(chunks), `chunks of ${size}`).toBe(expected);
+    }
+  });
+
+  it("keeps the space when a run is split between chunks", () => {
+    expect(stream(["Safe [7]", "[3]."])).toBe("Safe [3].");
+  });
+
+  it("holds back an unclosed bracket until it is closed", () => {
+    const filter = createCitationFilter(isValid);
+    expect(filter.push("Safe [")).toBe("Safe");
+    expect(filter.push("2")).toBe("");
+    expect(filter.push("].")).toBe(".");
+  });
+
+  it("releases a long bracketed aside instead of holding it", () => {
+    const filter = createCitationFilter(isValid);
+    expect(filter.push("Note [this is not a citation")).toBe("Note [this is not a citation");
+  });
+
+  it("flushes held text at the end", () => {
+    const filter = createCitationFilter(isValid);
+    expect(filter.push("Safe [")).toBe("Safe");
+    expect(filter.flush()).toBe(" [");
+  });
+});
@@ -0,0 +1,120 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from "ai";
+import type { ChatSource } from "@/types/chat";
+
+// Matches [1], [2, 3] and [2][3] style citation markers
+export const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// Longest text held back while waiting to see if "[..." is a citation
+const MAX_PENDING_CITATION_CHARS = 16;
+// Citations at the very end of the text so far
+const TRAILING_CITATIONS = new RegExp(`(?:${CITATION_PATTERN.source})+$`);
+
+// Citation numbers of the sources shown with an answer
+export function getCitationNumbers(sources: ChatSource[]): Set<number> {
+  return new Set(
+    sources
+      .map((source) => source.citation)
+      .filter((citation): citation is number => citation !== undefined)
+  );
+}
+
+/**
+ * Remove citation numbers that do not refer to a retrieved source. Groups
+ * left with no valid numbers are dropped along with the space before them.
+ */
+export function filterCitations(
+  text: string,
+  isValid: (citation: number) => boolean
+): string {
+  // Handle runs like " [7][3]" together so the leading space is kept when
+  // any group in the run survives
+  return text.replace(
+    new RegExp(`(\\s?)((?:${CITATION_PATTERN.source})+)`, "g"),
+    (_match, leadingSpace: string, run: string) => {
+      const groups = [...run.matchAll(CITATION_PATTERN)]
+        .map((group) => [
+          ...new Set(
+            group[1]
+              .split(",")
+              .map((part) => Number(part.trim()))
+              .filter(isValid)
+          ),
+        ])
+        .filter((valid) => valid.length);
+      if (!groups.length) return "";
+      return leadingSpace + groups.map((valid) => `[${valid.join(", ")}]`).join("");
+    }
+  );
+}
+
+/**
+ * Incremental version of filterCitations for streamed text. Text after an
+ * unclosed "[" is held back until it is known whether it is a citation, and
+ * citations at the end of a chunk until it is known whether the run goes on
+ * ("[7]" then "[3]" in the next chunk), so runs are filtered as a whole.
+ */
+export function createCitationFilter(isValid: (citation: number) => boolean) {
+  let pending = "";
+
+  return {
+    push(chunk: string): string {
+      pending += chunk;
+
+      const openIndex = pending.lastIndexOf("[");
+      let holdFrom = pending.length;
+      if (
+        openIndex !== -1 &&
+        !pending.slice(openIndex).includes("]") &&
+        pending.length - openIndex <= MAX_PENDING_CITATION_CHARS
+      ) {
+        holdFrom = openIndex;
+      }
+      const trailing = pending.slice(0, holdFrom).match(TRAILING_CITATIONS);
+      if (trailing?.index !== undefined) {
+        holdFrom = trailing.index;
+      }
+      // Also hold back whitespace that a dropped citation would remove
+      while (holdFrom > 0 && /\s/.test(pending[holdFrom - 1])) {
+        holdFrom--;
+      }
+
+      const ready = pending.slice(0, holdFrom);
+      pending = pending.slice(holdFrom);
+      return filterCitations(ready, isValid);
+    },
+    flush(): string {
+      const rest = filterCitations(pending, isValid);
+      pending = "";
+      return rest;
+    },
+  };
+}
+
+/**
+ * streamText transform that drops citations to sources that were never
+ * retrieved before they reach the client.
+ */
+export function citationTransform<TOOLS extends ToolSet>(
+  isValid: (citation: number) => boolean
+): StreamTextTransform<TOOLS> {
+  return () => {
+    const filter = createCitationFilter(isValid);
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(part, controller) {
+        if (part.type === "text-delta") {
+          const textDelta = filter.push(part.textDelta);
+          if (textDelta) controller.enqueue({ ...part, textDelta });
+          return;
+        }
+
+        const rest = filter.flush();
+        if (rest) controller.enqueue({ type: "text-delta", textDelta: rest });
+        controller.enqueue(part);
+      },
+      flush(controller) {
+        const rest = filter.flush();
+        if (rest) controller.enqueue({ type: "text-delta", textDelta: rest });
+      },
+    });
+  };
+}
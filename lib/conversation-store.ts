@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto";
+import { isAuthEnabled } from "@/lib/auth";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { JsonConversationStore } from "@/lib/json-conversation-store";
+import type { Principal } from "@/types/auth";
+import type {
+  ChatMessageWithSources,
+  ChatSource,
+  Conversation,
+  ConversationKind,
+  ConversationMemory,
+  ConversationSummary,
+  PromptRef,
+  StoredToolInvocation,
+} from "@/types/chat";
+
+export const CONVERSATION_KINDS: ConversationKind[] = ["chat", "agent", "agents-sdk"];
+
+export interface ConversationListOptions {
+  kind?: ConversationKind;
+  // Only conversations created by this principal
+  ownerId?: string;
+}
+
+/**
+ * Persistence for chat conversations. Implementations return null (or
+ * false) for unknown conversation ids instead of throwing.
+ */
+export interface ConversationStore {
+  /** Conversations without their messages, most recently updated first */
+  list(options?: ConversationListOptions): Promise<ConversationSummary[]>;
+  create(
+    kind: ConversationKind,
+    title?: string,
+    ownerId?: string
+  ): Promise<Conversation>;
+  get(id: string): Promise<Conversation | null>;
+  rename(id: string, title: string): Promise<Conversation | null>;
+  delete(id: string): Promise<boolean>;
+  /**
+   * Add messages to the end of a conversation. An untitled conversation is
+   * named after its first user message.
+   */
+  appendMessages(
+    id: string,
+    messages: ChatMessageWithSources[]
+  ): Promise<Conversation | null>;
+  /** Save the rolling memory built from the conversation's older turns */
+  updateMemory(
+    id: string,
+    memory: ConversationMemory
+  ): Promise<Conversation | null>;
+}
+
+/**
+ * Create the conversation store. Conversations are kept in a JSON file at
+ * CONVERSATION_STORE_PATH (default .data/conversations.json).
+ */
+export function createConversationStore(): ConversationStore {
+  return new JsonConversationStore();
+}
+
+/**
+ * Owner recorded on the conversations a principal creates and lists. With
+ * API_AUTH on each API key only sees its own conversations; without it
+ * callers are anonymous and share them all.
+ */
+export function getConversationOwner(principal: Principal): string | undefined {
+  return isAuthEnabled() ? principal.id : undefined;
+}
+
+/**
+ * Load a conversation the principal may read and change. Conversations of
+ * other API keys are reported as not found, like unknown ids. With `kind`,
+ * a conversation of another chat interface is rejected, so one interface
+ * cannot write into another's history.
+ */
+export async function getOwnedConversation(
+  store: ConversationStore,
+  id: string,
+  principal: Principal,
+  kind?: ConversationKind
+): Promise<Conversation> {
+  const conversation = await store.get(id);
+  const owner = getConversationOwner(principal);
+  if (!conversation || (owner && conversation.ownerId !== owner)) {
+    throw new NotFoundError("Conversation not found");
+  }
+  if (kind && conversation.kind !== kind) {
+    throw new ValidationError(
+      `Conversation ${id} belongs to the ${conversation.kind} interface, not ${kind}`
+    );
+  }
+  return conversation;
+}
+
+export function isConversationKind(value: unknown): value is ConversationKind {
+  return CONVERSATION_KINDS.includes(value as ConversationKind);
+}
+
+// What produced an assistant answer, saved alongside its text
+export interface StoredAnswerDetails {
+  sources?: ChatSource[];
+  prompt?: PromptRef;
+  rewrittenQuery?: string;
+  model?: string;
+  toolInvocations?: StoredToolInvocation[];
+}
+
+export function createStoredMessage(
+  role: ChatMessageWithSources["role"],
+  content: string,
+  { sources, prompt, rewrittenQuery, model, toolInvocations }: StoredAnswerDetails = {}
+): ChatMessageWithSources {
+  return {
+    id: randomUUID(),
+    role,
+    content,
+    ...(sources?.length ? { sources } : {}),
+    ...(prompt ? { prompt: { id: prompt.id, version: prompt.version } } : {}),
+    ...(rewrittenQuery ? { rewrittenQuery } : {}),
+    ...(model ? { model } : {}),
+    ...(toolInvocations?.length ? { toolInvocations } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { findCountry, formatSuggestions, resolveCountry } from "@/lib/countries";
+
+describe("resolveCountry", () => {
+  it("matches names ignoring case, accents and a leading 'the'", () => {
+    expect(findCountry("Japan")?.alpha2).toBe("JP");
+    expect(findCountry("japan")?.alpha2).toBe("JP");
+    expect(findCountry("Cote d'Ivoire")?.alpha2).toBe("CI");
+    expect(findCountry("the Netherlands")?.alpha2).toBe("NL");
+  });
+
+  it("matches codes and abbreviations only in capitals", () => {
+    expect(findCountry("IT")?.alpha2).toBe("IT");
+    expect(findCountry("CIV")?.alpha2).toBe("CI");
+    expect(findCountry("UAE")?.alpha2).toBe("AE");
+    expect(findCountry("U.S.")?.alpha2).toBe("US");
+    for (const word of ["it", "me", "us", "in", "no"]) {
+      expect(findCountry(word)).toBeNull();
+    }
+  });
+
+  it("accepts a clear typo as an inexact match", () => {
+    const resolution = resolveCountry("Japn");
+    expect(resolution.country?.alpha2).toBe("JP");
+    expect(resolution.exact).toBe(false);
+    expect(findCountry("Swizerland")?.alpha2).toBe("CH");
+  });
+
+  it("does not read a different first letter as a typo", () => {
+    expect(resolveCountry("bali").country).toBeNull();
+  });
+
+  it("suggests the closest countries when two are equally close", () => {
+    const resolution = resolveCountry("Nigera");
+    expect(resolution.country).toBeNull();
+    expect(resolution.suggestions.map((country) => country.alpha2)).toEqual(["NE", "NG"]);
+  });
+});
+
+describe("formatSuggestions", () => {
+  it("lists countries as a question", () => {
+    const japan = findCountry("Japan")!;
+    const jamaica = findCountry("Jamaica")!;
+    expect(formatSuggestions([japan, jamaica])).toBe("Did you mean Japan or Jamaica?");
+    expect(formatSuggestions([])).toBe("");
+  });
+});
@@ -0,0 +1,196 @@
+// Country name resolution against the bundled ISO 3166-1 dataset: exact
+// lookup by code, name, alias or demonym, then fuzzy matching for typos
+
+import { COUNTRIES } from "@/lib/country-data";
+import type { Country, CountryResolution } from "@/types/country";
+
+const MAX_SUGGESTIONS = 3;
+
+// Shorter names are too close to each other to match by edit distance
+const MIN_FUZZY_LENGTH = 4;
+
+// Normalized name, alias or demonym -> the countries it names.
+// Demonyms such as "Congolese" name more than one country.
+const nameIndex = new Map<string, Country[]>();
+
+// ISO codes and abbreviations such as "UAE" or "U.S.", without dots. Kept
+// apart from the names and only matched in capitals, since in lower case
+// many are common words ("it", "in", "no", "us")
+const codeIndex = new Map<string, Country>();
+
+// Names fuzzy matching compares against; codes are left out
+const fuzzyNames: { key: string; country: Country }[] = [];
+
+for (const country of COUNTRIES) {
+  const names = [...countryNames(country), ...country.demonyms];
+  const abbreviations = names.filter(isAbbreviation);
+  for (const key of new Set(
+    names.filter((name) => !isAbbreviation(name)).map(normalizeCountryName)
+  )) {
+    addToIndex(key, country);
+    if (key.length >= MIN_FUZZY_LENGTH) fuzzyNames.push({ key, country });
+  }
+  for (const code of [country.alpha2, country.alpha3, ...abbreviations]) {
+    codeIndex.set(code.replace(/\./g, ""), country);
+  }
+}
+
+/**
+ * Resolve free text such as "Côte d'Ivoire", "UAE", "Türkiye", "Republic of
+ * Korea", "DE" or "Japn" to a country. Codes and abbreviations only match in
+ * capitals. Exact name matches ignore case, accents, punctuation and a
+ * leading "the"; anything else is matched by edit distance and only accepted
+ * when one country is clearly closest. When there is no confident match the
+ * closest countries are returned as suggestions.
+ */
+export function resolveCountry(query: string): CountryResolution {
+  const code = isAbbreviation(query.trim()) && codeIndex.get(query.trim().replace(/\./g, ""));
+  if (code) {
+    return { query, country: code, exact: true, suggestions: [] };
+  }
+
+  const key = normalizeCountryName(query);
+  const exact = nameIndex.get(key) ?? [];
+  if (exact.length === 1) {
+    return { query, country: exact[0], exact: true, suggestions: [] };
+  }
+  if (exact.length > 1) {
+    return { query, country: null, exact: false, suggestions: exact.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  const ranked = rankByDistance(key);
+  const [best, runnerUp] = ranked;
+  if (
+    best &&
+    best.distance <= maxTypos(key) &&
+    // Typos rarely hit the first letter; "bali" is not a misspelt "mali"
+    best.key[0] === key[0] &&
+    wordsWithinTypos(key, best.key) &&
+    runnerUp?.distance !== best.distance
+  ) {
+    return { query, country: best.country, exact: false, suggestions: [] };
+  }
+
+  const prefixed = key.length >= 3
+    ? fuzzyNames.filter((name) => name.key.startsWith(key)).map((name) => name.country)
+    : [];
+  const close = ranked
+    .filter((match) => match.distance <= maxTypos(key) + 1)
+    .map((match) => match.country);
+  return {
+    query,
+    country: null,
+    exact: false,
+    suggestions: [...new Set([...prefixed, ...close])].slice(0, MAX_SUGGESTIONS),
+  };
+}
+
+// The country a query names, or null when it is unknown or ambiguous
+export function findCountry(query: string): Country | null {
+  return resolveCountry(query).country;
+}
+
+// Lookup by ISO 3166-1 alpha-2 or alpha-3 code, e.g. "CI" or "CIV"
+export function getCountryByCode(code: string): Country | null {
+  const upper = code.trim().toUpperCase();
+  return COUNTRIES.find((c) => c.alpha2 === upper || c.alpha3 === upper) ?? null;
+}
+
+// Every name a country goes by in text: common, official and aliases
+export function countryNames(country: Country): string[] {
+  return [country.name, country.officialName, ...country.aliases];
+}
+
+// "Did you mean Japan or Jamaica?", or "" when there is nothing to suggest
+export function formatSuggestions(suggestions: Country[]): string {
+  const names = suggestions.map((country) => country.name);
+  if (names.length === 0) return "";
+  const list = names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`;
+  return `Did you mean ${list}?`;
+}
+
+// "UAE", "U.S." or "CIV": capitals, optionally with dots
+function isAbbreviation(name: string): boolean {
+  return /^[A-Z][A-Z.]*$/.test(name);
+}
+
+// Lowercase, without accents, punctuation or a leading "the"
+function normalizeCountryName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the\s+/, "");
+}
+
+function addToIndex(key: string, country: Country): void {
+  const countries = nameIndex.get(key) ?? [];
+  if (!countries.includes(country)) countries.push(country);
+  nameIndex.set(key, countries);
+}
+
+// About one typo per four characters, at least one
+function maxTypos(key: string): number {
+  return Math.max(1, Math.floor(key.length / 4));
+}
+
+// Typos spread over a multi-word name must be typos in each word too, so
+// "south america" is not read as "south africa"
+function wordsWithinTypos(query: string, name: string): boolean {
+  const words = query.split(" ");
+  const nameWords = name.split(" ");
+  if (words.length !== nameWords.length) return true;
+  return words.every((word, i) => editDistance(word, nameWords[i]) <= maxTypos(word));
+}
+
+interface RankedCountry {
+  country: Country;
+  // The country's name closest to the query
+  key: string;
+  distance: number;
+}
+
+// Closest name of each country, nearest first
+function rankByDistance(key: string): RankedCountry[] {
+  if (key.length < MIN_FUZZY_LENGTH) return [];
+  const best = new Map<Country, RankedCountry>();
+  for (const name of fuzzyNames) {
+    // Names much longer or shorter than the query cannot be close
+    if (Math.abs(name.key.length - key.length) > maxTypos(key) + 2) continue;
+    const distance = editDistance(key, name.key);
+    if (distance < (best.get(name.country)?.distance ?? Infinity)) {
+      best.set(name.country, { country: name.country, key: name.key, distance });
+    }
+  }
+  return [...best.values()].sort((a, b) => a.distance - b.distance);
+}
+
+// Levenshtein distance that also counts a swap of adjacent letters as one edit
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
@@ -0,0 +1,270 @@
+import type { Country } from "@/types/country";
+
+function country(
+  alpha2: string,
+  alpha3: string,
+  name: string,
+  officialName: string,
+  aliases: string[] = [],
+  demonyms: string[] = []
+): Country {
+  return { alpha2, alpha3, name, officialName, aliases, demonyms };
+}
+
+/**
+ * ISO 3166-1 countries and territories with their common and official
+ * English names, other names in use (short forms, local names, former
+ * names) and demonyms. Bundled so country names resolve offline.
+ */
+export const COUNTRIES: Country[] = [
+  country("AF", "AFG", "Afghanistan", "Islamic Republic of Afghanistan", [], ["Afghan"]),
+  country("AX", "ALA", "Åland Islands", "Åland Islands", ["Aland"], ["Ålander"]),
+  country("AL", "ALB", "Albania", "Republic of Albania", ["Shqipëria"], ["Albanian"]),
+  country("DZ", "DZA", "Algeria", "People's Democratic Republic of Algeria", [], ["Algerian"]),
+  country("AS", "ASM", "American Samoa", "Territory of American Samoa", [], ["American Samoan"]),
+  country("AD", "AND", "Andorra", "Principality of Andorra", [], ["Andorran"]),
+  country("AO", "AGO", "Angola", "Republic of Angola", [], ["Angolan"]),
+  country("AI", "AIA", "Anguilla", "Anguilla", [], ["Anguillian"]),
+  country("AQ", "ATA", "Antarctica", "Antarctica", [], ["Antarctic"]),
+  country("AG", "ATG", "Antigua and Barbuda", "Antigua and Barbuda", ["Antigua"], ["Antiguan", "Barbudan"]),
+  country("AR", "ARG", "Argentina", "Argentine Republic", [], ["Argentine", "Argentinian"]),
+  country("AM", "ARM", "Armenia", "Republic of Armenia", [], ["Armenian"]),
+  country("AW", "ABW", "Aruba", "Aruba", [], ["Aruban"]),
+  country("AU", "AUS", "Australia", "Commonwealth of Australia", ["Oz"], ["Australian", "Aussie"]),
+  country("AT", "AUT", "Austria", "Republic of Austria", ["Österreich"], ["Austrian"]),
+  country("AZ", "AZE", "Azerbaijan", "Republic of Azerbaijan", [], ["Azerbaijani", "Azeri"]),
+  country("BS", "BHS", "Bahamas", "Commonwealth of The Bahamas", ["The Bahamas"], ["Bahamian"]),
+  country("BH", "BHR", "Bahrain", "Kingdom of Bahrain", [], ["Bahraini"]),
+  country("BD", "BGD", "Bangladesh", "People's Republic of Bangladesh", [], ["Bangladeshi"]),
+  country("BB", "BRB", "Barbados", "Barbados", [], ["Barbadian", "Bajan"]),
+  country("BY", "BLR", "Belarus", "Republic of Belarus", ["Byelorussia", "Belorussia"], ["Belarusian"]),
+  country("BE", "BEL", "Belgium", "Kingdom of Belgium", ["België", "Belgique"], ["Belgian"]),
+  country("BZ", "BLZ", "Belize", "Belize", ["British Honduras"], ["Belizean"]),
+  country("BJ", "BEN", "Benin", "Republic of Benin", ["Dahomey"], ["Beninese"]),
+  country("BM", "BMU", "Bermuda", "Bermuda", [], ["Bermudian"]),
+  country("BT", "BTN", "Bhutan", "Kingdom of Bhutan", [], ["Bhutanese"]),
+  country("BO", "BOL", "Bolivia", "Plurinational State of Bolivia", [], ["Bolivian"]),
+  country("BQ", "BES", "Caribbean Netherlands", "Bonaire, Sint Eustatius and Saba", ["Bonaire", "Sint Eustatius", "Saba"], []),
+  country("BA", "BIH", "Bosnia and Herzegovina", "Bosnia and Herzegovina", ["Bosnia", "BiH"], ["Bosnian", "Herzegovinian"]),
+  country("BW", "BWA", "Botswana", "Republic of Botswana", [], ["Motswana", "Batswana"]),
+  country("BV", "BVT", "Bouvet Island", "Bouvet Island", [], []),
+  country("BR", "BRA", "Brazil", "Federative Republic of Brazil", ["Brasil"], ["Brazilian"]),
+  country("IO", "IOT", "British Indian Ocean Territory", "British Indian Ocean Territory", ["Chagos Islands", "Diego Garcia"], []),
+  country("BN", "BRN", "Brunei", "Nation of Brunei, Abode of Peace", ["Brunei Darussalam"], ["Bruneian"]),
+  country("BG", "BGR", "Bulgaria", "Republic of Bulgaria", [], ["Bulgarian"]),
+  country("BF", "BFA", "Burkina Faso", "Burkina Faso", ["Upper Volta", "Burkina"], ["Burkinabé"]),
+  country("BI", "BDI", "Burundi", "Republic of Burundi", [], ["Burundian"]),
+  country("CV", "CPV", "Cabo Verde", "Republic of Cabo Verde", ["Cape Verde"], ["Cape Verdean", "Cabo Verdean"]),
+  country("KH", "KHM", "Cambodia", "Kingdom of Cambodia", ["Kampuchea"], ["Cambodian", "Khmer"]),
+  country("CM", "CMR", "Cameroon", "Republic of Cameroon", ["Cameroun"], ["Cameroonian"]),
+  country("CA", "CAN", "Canada", "Canada", [], ["Canadian"]),
+  country("KY", "CYM", "Cayman Islands", "Cayman Islands", ["Caymans"], ["Caymanian"]),
+  country("CF", "CAF", "Central African Republic", "Central African Republic", ["CAR", "Centrafrique"], ["Central African"]),
+  country("TD", "TCD", "Chad", "Republic of Chad", ["Tchad"], ["Chadian"]),
+  country("CL", "CHL", "Chile", "Republic of Chile", [], ["Chilean"]),
+  country("CN", "CHN", "China", "People's Republic of China", ["PRC", "Mainland China"], ["Chinese"]),
+  country("CX", "CXR", "Christmas Island", "Territory of Christmas Island", [], ["Christmas Islander"]),
+  country("CC", "CCK", "Cocos (Keeling) Islands", "Territory of the Cocos (Keeling) Islands", ["Cocos Islands", "Keeling Islands"], []),
+  country("CO", "COL", "Colombia", "Republic of Colombia", [], ["Colombian"]),
+  country("KM", "COM", "Comoros", "Union of the Comoros", [], ["Comorian"]),
+  country("CG", "COG", "Republic of the Congo", "Republic of the Congo", ["Congo", "Congo-Brazzaville", "Republic of Congo"], ["Congolese"]),
+  country("CD", "COD", "Democratic Republic of the Congo", "Democratic Republic of the Congo", ["DRC", "DR Congo", "Congo-Kinshasa", "Democratic Republic of Congo", "Zaire"], ["Congolese"]),
+  country("CK", "COK", "Cook Islands", "Cook Islands", [], ["Cook Islander"]),
+  country("CR", "CRI", "Costa Rica", "Republic of Costa Rica", [], ["Costa Rican"]),
+  country("CI", "CIV", "Côte d'Ivoire", "Republic of Côte d'Ivoire", ["Ivory Coast"], ["Ivorian"]),
+  country("HR", "HRV", "Croatia", "Republic of Croatia", ["Hrvatska"], ["Croatian", "Croat"]),
+  country("CU", "CUB", "Cuba", "Republic of Cuba", [], ["Cuban"]),
+  country("CW", "CUW", "Curaçao", "Country of Curaçao", [], ["Curaçaoan"]),
+  country("CY", "CYP", "Cyprus", "Republic of Cyprus", [], ["Cypriot"]),
+  country("CZ", "CZE", "Czechia", "Czech Republic", ["Czech Republic", "Česko"], ["Czech"]),
+  country("DK", "DNK", "Denmark", "Kingdom of Denmark", ["Danmark"], ["Danish", "Dane"]),
+  country("DJ", "DJI", "Djibouti", "Republic of Djibouti", [], ["Djiboutian"]),
+  country("DM", "DMA", "Dominica", "Commonwealth of Dominica", [], ["Dominican"]),
+  country("DO", "DOM", "Dominican Republic", "Dominican Republic", ["DR", "República Dominicana"], ["Dominican"]),
+  country("EC", "ECU", "Ecuador", "Republic of Ecuador", [], ["Ecuadorian"]),
+  country("EG", "EGY", "Egypt", "Arab Republic of Egypt", ["Misr"], ["Egyptian"]),
+  country("SV", "SLV", "El Salvador", "Republic of El Salvador", ["Salvador"], ["Salvadoran"]),
+  country("GQ", "GNQ", "Equatorial Guinea", "Republic of Equatorial Guinea", [], ["Equatoguinean", "Equatorial Guinean"]),
+  country("ER", "ERI", "Eritrea", "State of Eritrea", [], ["Eritrean"]),
+  country("EE", "EST", "Estonia", "Republic of Estonia", ["Eesti"], ["Estonian"]),
+  country("SZ", "SWZ", "Eswatini", "Kingdom of Eswatini", ["Swaziland"], ["Swazi", "Liswati"]),
+  country("ET", "ETH", "Ethiopia", "Federal Democratic Republic of Ethiopia", ["Abyssinia"], ["Ethiopian"]),
+  country("FK", "FLK", "Falkland Islands", "Falkland Islands", ["Falklands", "Malvinas", "Islas Malvinas"], ["Falkland Islander"]),
+  country("FO", "FRO", "Faroe Islands", "Faroe Islands", ["Faroes", "Føroyar"], ["Faroese"]),
+  country("FJ", "FJI", "Fiji", "Republic of Fiji", [], ["Fijian"]),
+  country("FI", "FIN", "Finland", "Republic of Finland", ["Suomi"], ["Finnish", "Finn"]),
+  country("FR", "FRA", "France", "French Republic", [], ["French"]),
+  country("GF", "GUF", "French Guiana", "French Guiana", ["Guyane"], ["French Guianese"]),
+  country("PF", "PYF", "French Polynesia", "French Polynesia", ["Tahiti"], ["French Polynesian", "Tahitian"]),
+  country("TF", "ATF", "French Southern Territories", "French Southern and Antarctic Lands", [], []),
+  country("GA", "GAB", "Gabon", "Gabonese Republic", [], ["Gabonese"]),
+  country("GM", "GMB", "Gambia", "Republic of The Gambia", ["The Gambia"], ["Gambian"]),
+  country("GE", "GEO", "Georgia", "Georgia", ["Sakartvelo"], ["Georgian"]),
+  country("DE", "DEU", "Germany", "Federal Republic of Germany", ["Deutschland"], ["German"]),
+  country("GH", "GHA", "Ghana", "Republic of Ghana", ["Gold Coast"], ["Ghanaian"]),
+  country("GI", "GIB", "Gibraltar", "Gibraltar", [], ["Gibraltarian"]),
+  country("GR", "GRC", "Greece", "Hellenic Republic", ["Hellas", "Ellada"], ["Greek"]),
+  country("GL", "GRL", "Greenland", "Greenland", ["Kalaallit Nunaat"], ["Greenlandic", "Greenlander"]),
+  country("GD", "GRD", "Grenada", "Grenada", [], ["Grenadian"]),
+  country("GP", "GLP", "Guadeloupe", "Guadeloupe", [], ["Guadeloupean"]),
+  country("GU", "GUM", "Guam", "Territory of Guam", [], ["Guamanian"]),
+  country("GT", "GTM", "Guatemala", "Republic of Guatemala", [], ["Guatemalan"]),
+  country("GG", "GGY", "Guernsey", "Bailiwick of Guernsey", [], ["Guernseyman"]),
+  country("GN", "GIN", "Guinea", "Republic of Guinea", ["Guinea-Conakry"], ["Guinean"]),
+  country("GW", "GNB", "Guinea-Bissau", "Republic of Guinea-Bissau", ["Guinea Bissau"], ["Bissau-Guinean"]),
+  country("GY", "GUY", "Guyana", "Co-operative Republic of Guyana", ["British Guiana"], ["Guyanese"]),
+  country("HT", "HTI", "Haiti", "Republic of Haiti", ["Haïti"], ["Haitian"]),
+  country("HM", "HMD", "Heard Island and McDonald Islands", "Heard Island and McDonald Islands", [], []),
+  country("VA", "VAT", "Vatican City", "Vatican City State", ["Holy See", "Vatican"], ["Vatican"]),
+  country("HN", "HND", "Honduras", "Republic of Honduras", [], ["Honduran"]),
+  country("HK", "HKG", "Hong Kong", "Hong Kong Special Administrative Region of the People's Republic of China", ["Hong Kong SAR"], ["Hongkonger", "Hong Konger"]),
+  country("HU", "HUN", "Hungary", "Hungary", ["Magyarország"], ["Hungarian", "Magyar"]),
+  country("IS", "ISL", "Iceland", "Iceland", ["Ísland"], ["Icelandic", "Icelander"]),
+  country("IN", "IND", "India", "Republic of India", ["Bharat"], ["Indian"]),
+  country("ID", "IDN", "Indonesia", "Republic of Indonesia", [], ["Indonesian"]),
+  country("IR", "IRN", "Iran", "Islamic Republic of Iran", ["Persia"], ["Iranian", "Persian"]),
+  country("IQ", "IRQ", "Iraq", "Republic of Iraq", [], ["Iraqi"]),
+  country("IE", "IRL", "Ireland", "Ireland", ["Republic of Ireland", "Éire", "Eire"], ["Irish"]),
+  country("IM", "IMN", "Isle of Man", "Isle of Man", [], ["Manx"]),
+  country("IL", "ISR", "Israel", "State of Israel", [], ["Israeli"]),
+  country("IT", "ITA", "Italy", "Italian Republic", ["Italia"], ["Italian"]),
+  country("JM", "JAM", "Jamaica", "Jamaica", [], ["Jamaican"]),
+  country("JP", "JPN", "Japan", "Japan", ["Nippon", "Nihon"], ["Japanese"]),
+  country("JE", "JEY", "Jersey", "Bailiwick of Jersey", [], ["Jersey"]),
+  country("JO", "JOR", "Jordan", "Hashemite Kingdom of Jordan", [], ["Jordanian"]),
+  country("KZ", "KAZ", "Kazakhstan", "Republic of Kazakhstan", ["Qazaqstan"], ["Kazakh", "Kazakhstani"]),
+  country("KE", "KEN", "Kenya", "Republic of Kenya", [], ["Kenyan"]),
+  country("KI", "KIR", "Kiribati", "Republic of Kiribati", [], ["I-Kiribati"]),
+  country("KP", "PRK", "North Korea", "Democratic People's Republic of Korea", ["DPRK"], ["North Korean"]),
+  country("KR", "KOR", "South Korea", "Republic of Korea", ["Korea", "ROK"], ["South Korean", "Korean"]),
+  country("XK", "XKX", "Kosovo", "Republic of Kosovo", [], ["Kosovar", "Kosovan"]),
+  country("KW", "KWT", "Kuwait", "State of Kuwait", [], ["Kuwaiti"]),
+  country("KG", "KGZ", "Kyrgyzstan", "Kyrgyz Republic", ["Kyrgyzia", "Kirghizia"], ["Kyrgyz", "Kyrgyzstani"]),
+  country("LA", "LAO", "Laos", "Lao People's Democratic Republic", ["Lao PDR"], ["Lao", "Laotian"]),
+  country("LV", "LVA", "Latvia", "Republic of Latvia", ["Latvija"], ["Latvian"]),
+  country("LB", "LBN", "Lebanon", "Lebanese Republic", [], ["Lebanese"]),
+  country("LS", "LSO", "Lesotho", "Kingdom of Lesotho", [], ["Basotho", "Mosotho"]),
+  country("LR", "LBR", "Liberia", "Republic of Liberia", [], ["Liberian"]),
+  country("LY", "LBY", "Libya", "State of Libya", [], ["Libyan"]),
+  country("LI", "LIE", "Liechtenstein", "Principality of Liechtenstein", [], ["Liechtensteiner"]),
+  country("LT", "LTU", "Lithuania", "Republic of Lithuania", ["Lietuva"], ["Lithuanian"]),
+  country("LU", "LUX", "Luxembourg", "Grand Duchy of Luxembourg", [], ["Luxembourgish", "Luxembourger"]),
+  country("MO", "MAC", "Macao", "Macao Special Administrative Region of the People's Republic of China", ["Macau"], ["Macanese"]),
+  country("MG", "MDG", "Madagascar", "Republic of Madagascar", [], ["Malagasy"]),
+  country("MW", "MWI", "Malawi", "Republic of Malawi", ["Nyasaland"], ["Malawian"]),
+  country("MY", "MYS", "Malaysia", "Malaysia", [], ["Malaysian"]),
+  country("MV", "MDV", "Maldives", "Republic of Maldives", ["The Maldives"], ["Maldivian"]),
+  country("ML", "MLI", "Mali", "Republic of Mali", [], ["Malian"]),
+  country("MT", "MLT", "Malta", "Republic of Malta", [], ["Maltese"]),
+  country("MH", "MHL", "Marshall Islands", "Republic of the Marshall Islands", [], ["Marshallese"]),
+  country("MQ", "MTQ", "Martinique", "Martinique", [], ["Martinican"]),
+  country("MR", "MRT", "Mauritania", "Islamic Republic of Mauritania", [], ["Mauritanian"]),
+  country("MU", "MUS", "Mauritius", "Republic of Mauritius", [], ["Mauritian"]),
+  country("YT", "MYT", "Mayotte", "Department of Mayotte", [], ["Mahoran"]),
+  country("MX", "MEX", "Mexico", "United Mexican States", ["México"], ["Mexican"]),
+  country("FM", "FSM", "Micronesia", "Federated States of Micronesia", ["FSM"], ["Micronesian"]),
+  country("MD", "MDA", "Moldova", "Republic of Moldova", ["Moldavia"], ["Moldovan"]),
+  country("MC", "MCO", "Monaco", "Principality of Monaco", [], ["Monégasque", "Monacan"]),
+  country("MN", "MNG", "Mongolia", "Mongolia", [], ["Mongolian"]),
+  country("ME", "MNE", "Montenegro", "Montenegro", ["Crna Gora"], ["Montenegrin"]),
+  country("MS", "MSR", "Montserrat", "Montserrat", [], ["Montserratian"]),
+  country("MA", "MAR", "Morocco", "Kingdom of Morocco", ["Maroc"], ["Moroccan"]),
+  country("MZ", "MOZ", "Mozambique", "Republic of Mozambique", ["Moçambique"], ["Mozambican"]),
+  country("MM", "MMR", "Myanmar", "Republic of the Union of Myanmar", ["Burma"], ["Burmese", "Myanmar"]),
+  country("NA", "NAM", "Namibia", "Republic of Namibia", ["South West Africa"], ["Namibian"]),
+  country("NR", "NRU", "Nauru", "Republic of Nauru", [], ["Nauruan"]),
+  country("NP", "NPL", "Nepal", "Federal Democratic Republic of Nepal", [], ["Nepali", "Nepalese"]),
+  country("NL", "NLD", "Netherlands", "Kingdom of the Netherlands", ["The Netherlands", "Holland", "Nederland"], ["Dutch"]),
+  country("NC", "NCL", "New Caledonia", "New Caledonia", ["Nouvelle-Calédonie"], ["New Caledonian"]),
+  country("NZ", "NZL", "New Zealand", "New Zealand", ["Aotearoa"], ["New Zealander", "Kiwi"]),
+  country("NI", "NIC", "Nicaragua", "Republic of Nicaragua", [], ["Nicaraguan"]),
+  country("NE", "NER", "Niger", "Republic of the Niger", [], ["Nigerien"]),
+  country("NG", "NGA", "Nigeria", "Federal Republic of Nigeria", [], ["Nigerian"]),
+  country("NU", "NIU", "Niue", "Niue", [], ["Niuean"]),
+  country("NF", "NFK", "Norfolk Island", "Territory of Norfolk Island", [], ["Norfolk Islander"]),
+  country("MK", "MKD", "North Macedonia", "Republic of North Macedonia", ["Macedonia", "FYROM"], ["Macedonian"]),
+  country("MP", "MNP", "Northern Mariana Islands", "Commonwealth of the Northern Mariana Islands", ["Saipan"], ["Northern Marianan"]),
+  country("NO", "NOR", "Norway", "Kingdom of Norway", ["Norge", "Noreg"], ["Norwegian"]),
+  country("OM", "OMN", "Oman", "Sultanate of Oman", [], ["Omani"]),
+  country("PK", "PAK", "Pakistan", "Islamic Republic of Pakistan", [], ["Pakistani"]),
+  country("PW", "PLW", "Palau", "Republic of Palau", ["Belau"], ["Palauan"]),
+  country("PS", "PSE", "Palestine", "State of Palestine", ["Palestinian Territories", "West Bank", "Gaza", "Gaza Strip"], ["Palestinian"]),
+  country("PA", "PAN", "Panama", "Republic of Panama", ["Panamá"], ["Panamanian"]),
+  country("PG", "PNG", "Papua New Guinea", "Independent State of Papua New Guinea", ["PNG"], ["Papua New Guinean"]),
+  country("PY", "PRY", "Paraguay", "Republic of Paraguay", [], ["Paraguayan"]),
+  country("PE", "PER", "Peru", "Republic of Peru", ["Perú"], ["Peruvian"]),
+  country("PH", "PHL", "Philippines", "Republic of the Philippines", ["The Philippines", "Pilipinas"], ["Filipino", "Philippine"]),
+  country("PN", "PCN", "Pitcairn Islands", "Pitcairn, Henderson, Ducie and Oeno Islands", ["Pitcairn"], ["Pitcairn Islander"]),
+  country("PL", "POL", "Poland", "Republic of Poland", ["Polska"], ["Polish", "Pole"]),
+  country("PT", "PRT", "Portugal", "Portuguese Republic", [], ["Portuguese"]),
+  country("PR", "PRI", "Puerto Rico", "Commonwealth of Puerto Rico", [], ["Puerto Rican"]),
+  country("QA", "QAT", "Qatar", "State of Qatar", [], ["Qatari"]),
+  country("RE", "REU", "Réunion", "Réunion", ["Reunion Island"], ["Réunionese"]),
+  country("RO", "ROU", "Romania", "Romania", ["Rumania", "România"], ["Romanian"]),
+  country("RU", "RUS", "Russia", "Russian Federation", ["Rossiya"], ["Russian"]),
+  country("RW", "RWA", "Rwanda", "Republic of Rwanda", [], ["Rwandan"]),
+  country("BL", "BLM", "Saint Barthélemy", "Collectivity of Saint Barthélemy", ["St. Barts", "St Barths", "Saint Barts"], []),
+  country("SH", "SHN", "Saint Helena, Ascension and Tristan da Cunha", "Saint Helena, Ascension and Tristan da Cunha", ["Saint Helena", "St. Helena", "Ascension Island", "Tristan da Cunha"], ["Saint Helenian"]),
+  country("KN", "KNA", "Saint Kitts and Nevis", "Federation of Saint Christopher and Nevis", ["St. Kitts and Nevis", "St Kitts", "Saint Christopher and Nevis"], ["Kittitian", "Nevisian"]),
+  country("LC", "LCA", "Saint Lucia", "Saint Lucia", ["St. Lucia", "St Lucia"], ["Saint Lucian"]),
+  country("MF", "MAF", "Saint Martin", "Collectivity of Saint Martin", ["St. Martin"], []),
+  country("PM", "SPM", "Saint Pierre and Miquelon", "Overseas Collectivity of Saint Pierre and Miquelon", ["St. Pierre and Miquelon"], []),
+  country("VC", "VCT", "Saint Vincent and the Grenadines", "Saint Vincent and the Grenadines", ["St. Vincent and the Grenadines", "St Vincent", "Saint Vincent"], ["Vincentian"]),
+  country("WS", "WSM", "Samoa", "Independent State of Samoa", ["Western Samoa"], ["Samoan"]),
+  country("SM", "SMR", "San Marino", "Republic of San Marino", [], ["Sammarinese"]),
+  country("ST", "STP", "São Tomé and Príncipe", "Democratic Republic of São Tomé and Príncipe", ["Sao Tome", "São Tomé"], ["São Toméan"]),
+  country("SA", "SAU", "Saudi Arabia", "Kingdom of Saudi Arabia", ["KSA", "Saudi"], ["Saudi", "Saudi Arabian"]),
+  country("SN", "SEN", "Senegal", "Republic of Senegal", ["Sénégal"], ["Senegalese"]),
+  country("RS", "SRB", "Serbia", "Republic of Serbia", ["Srbija"], ["Serbian", "Serb"]),
+  country("SC", "SYC", "Seychelles", "Republic of Seychelles", [], ["Seychellois"]),
+  country("SL", "SLE", "Sierra Leone", "Republic of Sierra Leone", [], ["Sierra Leonean"]),
+  country("SG", "SGP", "Singapore", "Republic of Singapore", [], ["Singaporean"]),
+  country("SX", "SXM", "Sint Maarten", "Sint Maarten", ["St. Maarten"], []),
+  country("SK", "SVK", "Slovakia", "Slovak Republic", ["Slovensko"], ["Slovak"]),
+  country("SI", "SVN", "Slovenia", "Republic of Slovenia", ["Slovenija"], ["Slovenian", "Slovene"]),
+  country("SB", "SLB", "Solomon Islands", "Solomon Islands", ["Solomons"], ["Solomon Islander"]),
+  country("SO", "SOM", "Somalia", "Federal Republic of Somalia", ["Somaliland"], ["Somali"]),
+  country("ZA", "ZAF", "South Africa", "Republic of South Africa", ["RSA"], ["South African"]),
+  country("GS", "SGS", "South Georgia and the South Sandwich Islands", "South Georgia and the South Sandwich Islands", ["South Georgia"], []),
+  country("SS", "SSD", "South Sudan", "Republic of South Sudan", [], ["South Sudanese"]),
+  country("ES", "ESP", "Spain", "Kingdom of Spain", ["España"], ["Spanish", "Spaniard"]),
+  country("LK", "LKA", "Sri Lanka", "Democratic Socialist Republic of Sri Lanka", ["Ceylon"], ["Sri Lankan"]),
+  country("SD", "SDN", "Sudan", "Republic of the Sudan", ["The Sudan"], ["Sudanese"]),
+  country("SR", "SUR", "Suriname", "Republic of Suriname", ["Surinam", "Dutch Guiana"], ["Surinamese"]),
+  country("SJ", "SJM", "Svalbard and Jan Mayen", "Svalbard and Jan Mayen", ["Svalbard"], []),
+  country("SE", "SWE", "Sweden", "Kingdom of Sweden", ["Sverige"], ["Swedish", "Swede"]),
+  country("CH", "CHE", "Switzerland", "Swiss Confederation", ["Schweiz", "Suisse", "Svizzera"], ["Swiss"]),
+  country("SY", "SYR", "Syria", "Syrian Arab Republic", [], ["Syrian"]),
+  country("TW", "TWN", "Taiwan", "Republic of China (Taiwan)", ["Republic of China", "ROC", "Formosa", "Chinese Taipei"], ["Taiwanese"]),
+  country("TJ", "TJK", "Tajikistan", "Republic of Tajikistan", [], ["Tajik", "Tajikistani"]),
+  country("TZ", "TZA", "Tanzania", "United Republic of Tanzania", ["Zanzibar", "Tanganyika"], ["Tanzanian"]),
+  country("TH", "THA", "Thailand", "Kingdom of Thailand", ["Siam"], ["Thai"]),
+  country("TL", "TLS", "Timor-Leste", "Democratic Republic of Timor-Leste", ["East Timor", "Timor Leste"], ["Timorese"]),
+  country("TG", "TGO", "Togo", "Togolese Republic", [], ["Togolese"]),
+  country("TK", "TKL", "Tokelau", "Tokelau", [], ["Tokelauan"]),
+  country("TO", "TON", "Tonga", "Kingdom of Tonga", [], ["Tongan"]),
+  country("TT", "TTO", "Trinidad and Tobago", "Republic of Trinidad and Tobago", ["Trinidad", "Tobago"], ["Trinidadian", "Tobagonian"]),
+  country("TN", "TUN", "Tunisia", "Republic of Tunisia", [], ["Tunisian"]),
+  country("TR", "TUR", "Türkiye", "Republic of Türkiye", ["Turkey"], ["Turkish", "Turk"]),
+  country("TM", "TKM", "Turkmenistan", "Turkmenistan", [], ["Turkmen"]),
+  country("TC", "TCA", "Turks and Caicos Islands", "Turks and Caicos Islands", ["Turks and Caicos"], []),
+  country("TV", "TUV", "Tuvalu", "Tuvalu", [], ["Tuvaluan"]),
+  country("UG", "UGA", "Uganda", "Republic of Uganda", [], ["Ugandan"]),
+  country("UA", "UKR", "Ukraine", "Ukraine", ["The Ukraine"], ["Ukrainian"]),
+  country("AE", "ARE", "United Arab Emirates", "United Arab Emirates", ["UAE", "Emirates"], ["Emirati"]),
+  country("GB", "GBR", "United Kingdom", "United Kingdom of Great Britain and Northern Ireland", ["UK", "Great Britain", "Britain", "England", "Scotland", "Wales", "Northern Ireland"], ["British", "Briton", "English", "Scottish", "Welsh"]),
+  country("US", "USA", "United States", "United States of America", ["USA", "US", "America", "United States of America", "U.S.", "U.S.A."], ["American"]),
+  country("UM", "UMI", "United States Minor Outlying Islands", "United States Minor Outlying Islands", ["Wake Island", "Midway Islands"], []),
+  country("UY", "URY", "Uruguay", "Oriental Republic of Uruguay", [], ["Uruguayan"]),
+  country("UZ", "UZB", "Uzbekistan", "Republic of Uzbekistan", [], ["Uzbek", "Uzbekistani"]),
+  country("VU", "VUT", "Vanuatu", "Republic of Vanuatu", ["New Hebrides"], ["Ni-Vanuatu"]),
+  country("VE", "VEN", "Venezuela", "Bolivarian Republic of Venezuela", [], ["Venezuelan"]),
+  country("VN", "VNM", "Vietnam", "Socialist Republic of Viet Nam", ["Viet Nam"], ["Vietnamese"]),
+  country("VG", "VGB", "British Virgin Islands", "Virgin Islands", ["BVI"], ["British Virgin Islander"]),
+  country("VI", "VIR", "U.S. Virgin Islands", "Virgin Islands of the United States", ["US Virgin Islands", "USVI"], ["Virgin Islander"]),
+  country("WF", "WLF", "Wallis and Futuna", "Territory of the Wallis and Futuna Islands", [], ["Wallisian", "Futunan"]),
+  country("EH", "ESH", "Western Sahara", "Sahrawi Arab Democratic Republic", [], ["Sahrawi", "Western Saharan"]),
+  country("YE", "YEM", "Yemen", "Republic of Yemen", [], ["Yemeni"]),
+  country("ZM", "ZMB", "Zambia", "Republic of Zambia", ["Northern Rhodesia"], ["Zambian"]),
+  country("ZW", "ZWE", "Zimbabwe", "Republic of Zimbabwe", ["Rhodesia"], ["Zimbabwean"]),
+];
@@ -0,0 +1,154 @@
+import type { RetrievedDocument } from "@/types/vectorize";
+import type { ChatSource } from "@/types/chat";
+import { estimateTokens, truncateToTokens } from "@/lib/tokens";
+
+/**
+ * Ranking score of a document: the reranker's score, then the fused hybrid
+ * score, then the backend's relevancy/similarity.
+ */
+function rankingScore(doc: RetrievedDocument): number {
+  return doc.rerankScore ?? doc.fusedScore ?? (doc.relevancy || doc.similarity || 0);
+}
+
+function describeRelevance(doc: RetrievedDocument): string {
+  const score = doc.relevancy || doc.similarity || 0;
+  if (!score && doc.retrievers?.length === 1 && doc.retrievers[0] === "keyword") {
+    return "keyword match";
+  }
+  return `${Math.round(score * 100)}% relevant`;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export interface PackedContext {
+  /** Formatted context to place in the prompt */
+  contextDocuments: string;
+  /** Documents that made it into the context, in the order they appear */
+  included: RetrievedDocument[];
+  /** Retrieved documents left out as duplicates or for lack of budget */
+  omitted: RetrievedDocument[];
+  /** Estimated tokens used by the context */
+  tokenCount: number;
+}
+
+export interface PackingOptions {
+  /** Maximum estimated tokens for the whole context block */
+  tokenBudget?: number;
+  /**
+   * Citation number of the first document. Later calls in the same
+   * conversation turn continue numbering so citations stay unambiguous.
+   */
+  firstCitation?: number;
+}
+
+const DOCUMENT_SEPARATOR = "\n\n==========\n\n";
+// Truncating a chunk below this many tokens rarely leaves anything useful
+const MIN_TRUNCATED_TOKENS = 80;
+
+/**
+ * Assemble retrieved documents into a context block, highest priority
+ * first, without exceeding the token budget. Duplicate chunks are dropped;
+ * a chunk that does not fit is truncated at a sentence boundary when enough
+ * budget remains, otherwise skipped in favour of smaller lower-ranked ones.
+ */
+export function packDocumentsForContext(
+  documents: RetrievedDocument[],
+  { tokenBudget = Infinity, firstCitation = 1 }: PackingOptions = {}
+): PackedContext {
+  if (!documents.length) {
+    return {
+      contextDocuments: "No relevant documents found.",
+      included: [],
+      omitted: [],
+      tokenCount: 0,
+    };
+  }
+
+  // Sort documents by reranked, fused or relevancy/similarity score
+  const sortedDocs = [...documents].sort((a, b) => rankingScore(b) - rankingScore(a));
+
+  const seenContent = new Set<string>();
+  const included: RetrievedDocument[] = [];
+  const omitted: RetrievedDocument[] = [];
+  const sections: string[] = [];
+  let tokenCount = 0;
+
+  for (const doc of sortedDocs) {
+    const cleanText = normalizeWhitespace(doc.text);
+
+    // Create a normalized version for duplicate detection
+    const normalizedText = cleanText.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ');
+    if (seenContent.has(normalizedText)) {
+      omitted.push(doc);
+      continue;
+    }
+    seenContent.add(normalizedText);
+
+    const citation = firstCitation + included.length;
+    const title = doc.source_display_name || doc.source;
+    const header = `[${citation}] ${title ? `${title} ` : ""}(${describeRelevance(doc)}):\n`;
+    const overhead =
+      estimateTokens(header) + (sections.length ? estimateTokens(DOCUMENT_SEPARATOR) : 0);
+    const available = tokenBudget - tokenCount - overhead;
+
+    let packedDoc: RetrievedDocument = { ...doc, citation };
+    let text: string | null = cleanText;
+    if (estimateTokens(cleanText) > available && doc.hitText) {
+      // An expanded passage that does not fit falls back to the retrieved chunk
+      packedDoc = { ...doc, text: doc.hitText, hitText: undefined, expandedChunkIds: undefined };
+      text = normalizeWhitespace(doc.hitText);
+    }
+    if (estimateTokens(text) > available) {
+      text =
+        available >= MIN_TRUNCATED_TOKENS
+          ? truncateToTokens(text, available)
+          : null;
+      if (text !== null) {
+        packedDoc = { ...packedDoc, truncated: true };
+      }
+    }
+
+    if (text === null) {
+      omitted.push(doc);
+      continue;
+    }
+
+    sections.push(header + text);
+    tokenCount += overhead + estimateTokens(text);
+    included.push(packedDoc);
+  }
+
+  return {
+    contextDocuments: sections.length
+      ? sections.join(DOCUMENT_SEPARATOR)
+      : "No relevant documents found.",
+    included,
+    omitted,
+    tokenCount,
+  };
+}
+
+export function formatDocumentsForContext(documents: RetrievedDocument[]): string {
+  return packDocumentsForContext(documents).contextDocuments;
+}
+
+export function convertDocumentsToChatSources(documents: RetrievedDocument[]): ChatSource[] {
+  return documents.map((doc) => ({
+    id: doc.id,
+    title: doc.source_display_name || doc.source,
+    url: doc.source,
+    snippet: doc.text, // Full text content for hover display
+    relevancy: doc.relevancy,
+    similarity: doc.similarity,
+    retrievers: doc.retrievers,
+    fusedScore: doc.fusedScore,
+    originalScore: doc.originalScore,
+    originalRank: doc.originalRank,
+    rerankScore: doc.rerankScore,
+    truncated: doc.truncated,
+    citation: doc.citation,
+    expandedChunkIds: doc.expandedChunkIds,
+  }));
+}
@@ -0,0 +1,88 @@
+import { embedMany } from "ai";
+import { openai } from "@ai-sdk/openai";
+
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * Identifier of the embedding model in use, e.g. "openai:text-embedding-3-small"
+ * or "local:hash-512". Stored alongside persisted embeddings so vectors from
+ * different models are never compared with each other.
+ */
+export function getEmbeddingModelId(): string {
+  if (process.env.EMBEDDING_PROVIDER === "local") {
+    return `local:hash-${LOCAL_EMBEDDING_DIMENSIONS}`;
+  }
+  return `openai:${process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL}`;
+}
+
+/**
+ * Embed a batch of texts with the configured provider.
+ * EMBEDDING_PROVIDER=local uses an offline feature-hashing embedding that
+ * needs no network access (useful for development and tests).
+ */
+export async function embedTexts(
+  texts: string[],
+  { abortSignal }: { abortSignal?: AbortSignal } = {}
+): Promise<number[][]> {
+  if (!texts.length) return [];
+
+  if (process.env.EMBEDDING_PROVIDER === "local") {
+    return texts.map(hashEmbedding);
+  }
+
+  const { embeddings } = await embedMany({
+    model: openai.embedding(
+      process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL
+    ),
+    values: texts,
+    abortSignal,
+  });
+  return embeddings;
+}
+
+export async function embedText(
+  text: string,
+  options: { abortSignal?: AbortSignal } = {}
+): Promise<number[]> {
+  const [embedding] = await embedTexts([text], options);
+  return embedding;
+}
+
+/**
+ * Deterministic bag-of-words embedding using the hashing trick over unigrams
+ * and bigrams, L2-normalised so cosine similarity behaves sensibly.
+ */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  const tokens = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  const features = [...tokens];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    const index = hash % LOCAL_EMBEDDING_DIMENSIONS;
+    // Use a second bit of the hash as the sign to reduce collision bias
+    vector[index] += (hash >>> 16) & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
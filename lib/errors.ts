@@ -0,0 +1,128 @@
+import { AISDKError } from "ai";
+import type { ApiErrorCode, ApiErrorDetail } from "@/types/api";
+
+/**
+ * An error with a stable code and HTTP status, so routes can report it in
+ * the API error envelope. The message is shown to users; put internal
+ * detail in `cause`.
+ */
+export class AppError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+
+  constructor(
+    code: ApiErrorCode,
+    status: number,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/** The request body or query did not match the route's schema. */
+export class ValidationError extends AppError {
+  readonly details: ApiErrorDetail[];
+
+  constructor(message: string, details: ApiErrorDetail[] = []) {
+    super("validation_error", 400, message);
+    this.details = details;
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super("not_found", 404, message);
+  }
+}
+
+/** No valid API key or session was presented. */
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super("unauthorized", 401, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super("forbidden", 403, message);
+  }
+}
+
+/**
+ * The caller is over its rate limit ("rate_limited") or daily quota
+ * ("quota_exceeded"). Sent as a 429 with a Retry-After header.
+ */
+export class RateLimitError extends AppError {
+  readonly retryAfterSeconds: number;
+
+  constructor(
+    code: "rate_limited" | "quota_exceeded",
+    message: string,
+    retryAfterSeconds: number
+  ) {
+    super(code, 429, message);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** The vector store or another retrieval backend failed. */
+export class RetrievalError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super("retrieval_error", 502, message, options);
+  }
+}
+
+/** Every model in the chain failed, or the model returned unusable output. */
+export class LLMError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super("llm_error", 502, message, options);
+  }
+}
+
+/** The weather provider could not be reached or returned an error. */
+export class WeatherError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super("weather_error", 502, message, options);
+  }
+}
+
+/**
+ * The client disconnected or stopped the request. Uses nginx's 499 "client
+ * closed request"; nobody is left to read the response.
+ */
+export class CancelledError extends AppError {
+  constructor(options?: { cause?: unknown }) {
+    super("cancelled", 499, "The request was cancelled", options);
+  }
+}
+
+/**
+ * Whether an error comes from aborting an AbortSignal, including aborts
+ * wrapped by the AI SDK (e.g. a tool execution error caused by one).
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof CancelledError) return true;
+  if (!(error instanceof Error)) return false;
+  return error.name === "AbortError" || isAbortError(error.cause);
+}
+
+/**
+ * Classify any thrown value. Aborts become CancelledErrors; AI SDK errors
+ * (API call failures, invalid responses, no object generated, ...) become
+ * LLMErrors; anything unrecognised becomes a generic internal error that
+ * does not leak its message to the client.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  if (isAbortError(error)) return new CancelledError({ cause: error });
+  if (AISDKError.isInstance(error)) {
+    return new LLMError("The language model request failed", { cause: error });
+  }
+  return new AppError("internal_error", 500, "An unexpected error occurred", {
+    cause: error,
+  });
+}
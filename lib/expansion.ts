@@ -0,0 +1,147 @@
+import { isAbortError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import type { VectorStore } from "@/lib/vector-store";
+import type { RetrievedDocument, VectorizeDocument } from "@/types/vectorize";
+
+// Overlap lengths considered when stitching consecutive chunks together;
+// shorter matches are likely coincidental
+const MIN_STITCH_OVERLAP = 20;
+const MAX_STITCH_OVERLAP = 1000;
+
+let warnedUnsupported = false;
+
+/**
+ * Replace each hit with a passage made of the hit plus up to `window`
+ * chunks before and after it from the same source, so advisory sections cut
+ * mid-paragraph are read as one continuous passage.
+ *
+ * Hits are processed in rank order and a chunk is never used twice: a hit
+ * already covered by a higher-ranked passage is dropped, and neighbours
+ * stop at chunks another passage has claimed.
+ *
+ * Only the neighbours' chunk ids are looked up, one request per source. A
+ * source whose lookup fails keeps its hits as they are; stores without
+ * `getSourceChunks` are returned unchanged, with a warning.
+ */
+export async function expandNeighbors(
+  documents: RetrievedDocument[],
+  store: VectorStore,
+  window: number,
+  { abortSignal }: { abortSignal?: AbortSignal } = {}
+): Promise<RetrievedDocument[]> {
+  if (window <= 0 || !documents.length) return documents;
+  const getSourceChunks = store.getSourceChunks?.bind(store);
+  if (!getSourceChunks) {
+    if (!warnedUnsupported) {
+      warnedUnsupported = true;
+      logger.warn("EXPAND_NEIGHBORS is set but the vector store cannot look up chunks by source; hits are not expanded");
+    }
+    return documents;
+  }
+
+  // Chunks within the window of each hit, per source; hits are included so
+  // a neighbour that was also retrieved is not fetched again
+  const wanted = new Map<string, Set<number>>();
+  const chunksBySource = new Map<string, Map<number, VectorizeDocument>>();
+  for (const doc of documents) {
+    const key = sourceKey(doc);
+    const position = Number(doc.chunk_id);
+    if (!Number.isFinite(position)) continue;
+    const ids = wanted.get(key) ?? new Set<number>();
+    wanted.set(key, ids);
+    for (let i = Math.max(0, position - window); i <= position + window; i++) {
+      ids.add(i);
+    }
+    const chunks = chunksBySource.get(key) ?? new Map<number, VectorizeDocument>();
+    chunksBySource.set(key, chunks.set(position, doc));
+  }
+
+  await Promise.all(
+    [...wanted].map(async ([key, ids]) => {
+      const chunks = chunksBySource.get(key)!;
+      const missing = [...ids].filter((id) => !chunks.has(id)).map(String);
+      try {
+        for (const chunk of await getSourceChunks(key, {
+          chunkIds: missing,
+          abortSignal,
+        })) {
+          chunks.set(Number(chunk.chunk_id), chunk);
+        }
+      } catch (error) {
+        if (abortSignal?.aborted || isAbortError(error)) throw error;
+        logger.warn("Neighbour lookup failed", { source: key, error });
+        chunksBySource.delete(key);
+      }
+    })
+  );
+
+  const claimed = new Map<string, Set<number>>();
+  const expanded: RetrievedDocument[] = [];
+
+  for (const doc of documents) {
+    const key = sourceKey(doc);
+    const position = Number(doc.chunk_id);
+    const chunks = chunksBySource.get(key);
+    const used = claimed.get(key) ?? new Set<number>();
+    claimed.set(key, used);
+
+    if (!chunks || !Number.isFinite(position)) {
+      expanded.push(doc);
+      continue;
+    }
+    if (used.has(position)) {
+      // Already part of a higher-ranked passage
+      continue;
+    }
+
+    let start = position;
+    while (start - 1 >= position - window && chunks.has(start - 1) && !used.has(start - 1)) {
+      start--;
+    }
+    let end = position;
+    while (end + 1 <= position + window && chunks.has(end + 1) && !used.has(end + 1)) {
+      end++;
+    }
+
+    const range: number[] = [];
+    for (let i = start; i <= end; i++) {
+      range.push(i);
+      used.add(i);
+    }
+
+    if (range.length === 1) {
+      expanded.push(doc);
+      continue;
+    }
+
+    expanded.push({
+      ...doc,
+      text: stitchChunks(range.map((i) => chunks.get(i)!.text)),
+      hitText: doc.text,
+      expandedChunkIds: range.map(String),
+    });
+  }
+
+  return expanded;
+}
+
+function sourceKey(doc: VectorizeDocument): string {
+  return doc.unique_source || doc.source;
+}
+
+/**
+ * Join consecutive chunks, removing the text each chunk repeats from the
+ * end of the previous one (chunking overlap).
+ */
+export function stitchChunks(texts: string[]): string {
+  return texts.reduce((merged, next) => {
+    if (!merged) return next;
+    const limit = Math.min(merged.length, next.length, MAX_STITCH_OVERLAP);
+    for (let length = limit; length >= MIN_STITCH_OVERLAP; length--) {
+      if (merged.endsWith(next.slice(0, length))) {
+        return merged + next.slice(length);
+      }
+    }
+    return `${merged} ${next}`;
+  }, "");
+}
@@ -0,0 +1,69 @@
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+} from "ai";
+import { logger } from "@/lib/logger";
+
+/**
+ * Language model that tries a chain of models in order, moving on to the
+ * next one when a call fails (e.g. provider outage, rate limit, missing API
+ * key). Only failures before the response starts are retried: once a stream
+ * is flowing, a mid-stream error is surfaced as usual.
+ *
+ * Capability flags are taken from the first model in the chain.
+ */
+export class FallbackLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1" as const;
+  readonly provider = "fallback";
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode: LanguageModelV1["defaultObjectGenerationMode"];
+  readonly supportsStructuredOutputs?: boolean;
+  readonly supportsImageUrls?: boolean;
+  private models: LanguageModelV1[];
+
+  constructor(models: LanguageModelV1[]) {
+    if (!models.length) {
+      throw new Error("A fallback chain needs at least one model");
+    }
+    this.models = models;
+    this.modelId = models.map(describeModel).join(" -> ");
+    this.defaultObjectGenerationMode = models[0].defaultObjectGenerationMode;
+    this.supportsStructuredOutputs = models[0].supportsStructuredOutputs;
+    this.supportsImageUrls = models[0].supportsImageUrls;
+  }
+
+  doGenerate(options: LanguageModelV1CallOptions) {
+    return this.withFallback((model) => model.doGenerate(options), options);
+  }
+
+  doStream(options: LanguageModelV1CallOptions) {
+    return this.withFallback((model) => model.doStream(options), options);
+  }
+
+  private async withFallback<T>(
+    call: (model: LanguageModelV1) => PromiseLike<T>,
+    options: LanguageModelV1CallOptions
+  ): Promise<T> {
+    let lastError: unknown;
+    for (const [index, model] of this.models.entries()) {
+      try {
+        return await call(model);
+      } catch (error) {
+        // A cancelled request should not be retried on another provider
+        if (options.abortSignal?.aborted) throw error;
+        lastError = error;
+        const next = this.models[index + 1];
+        logger.warn("Model call failed", {
+          model: describeModel(model),
+          fallback: next ? describeModel(next) : undefined,
+          error,
+        });
+      }
+    }
+    throw lastError;
+  }
+}
+
+function describeModel(model: LanguageModelV1): string {
+  return `${model.provider}:${model.modelId}`;
+}
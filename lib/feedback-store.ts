@@ -0,0 +1,187 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { NotFoundError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import type {
+  Conversation,
+  FeedbackInput,
+  FeedbackRating,
+  FeedbackRecord,
+  FeedbackRequest,
+} from "@/types/chat";
+
+const DEFAULT_STORE_PATH = ".data/feedback.jsonl";
+
+export interface FeedbackFilter {
+  rating?: FeedbackRating;
+  /** Only feedback given at or after this time */
+  since?: Date;
+}
+
+/**
+ * Storage for answer feedback. A user can change their rating, so several
+ * records may exist per message; list() returns only the latest one.
+ */
+export interface FeedbackStore {
+  add(input: FeedbackInput): Promise<FeedbackRecord>;
+  list(filter?: FeedbackFilter): Promise<FeedbackRecord[]>;
+}
+
+/**
+ * Append-only JSON Lines feedback log, one record per line.
+ */
+export class JsonlFeedbackStore implements FeedbackStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = path.resolve(
+      filePath || process.env.FEEDBACK_STORE_PATH || DEFAULT_STORE_PATH
+    );
+  }
+
+  async add(input: FeedbackInput): Promise<FeedbackRecord> {
+    const record: FeedbackRecord = {
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      ...input,
+    };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+    return record;
+  }
+
+  async list({ rating, since }: FeedbackFilter = {}): Promise<FeedbackRecord[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const latest = new Map<string, FeedbackRecord>();
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record: FeedbackRecord = JSON.parse(line);
+        latest.set(record.messageId, record);
+      } catch {
+        logger.warn("Skipping malformed feedback line", {
+          line: line.slice(0, 200),
+        });
+      }
+    }
+
+    return [...latest.values()].filter(
+      (record) =>
+        (!rating || record.rating === rating) &&
+        (!since || new Date(record.createdAt) >= since)
+    );
+  }
+}
+
+export function createFeedbackStore(): FeedbackStore {
+  return new JsonlFeedbackStore();
+}
+
+/**
+ * Build the feedback record for a rated answer from its saved conversation:
+ * the question is the user message before it, and the sources, prompt and
+ * model are those saved with the answer.
+ */
+export function createFeedbackInput(
+  conversation: Conversation,
+  { rating, comment, messageId }: FeedbackRequest
+): FeedbackInput {
+  const index = conversation.messages.findIndex(
+    (message) => message.id === messageId && message.role === "assistant"
+  );
+  if (index === -1) {
+    throw new NotFoundError("Message not found");
+  }
+  const answer = conversation.messages[index];
+  const question = conversation.messages
+    .slice(0, index)
+    .findLast((message) => message.role === "user");
+
+  return {
+    rating,
+    comment,
+    kind: conversation.kind,
+    conversationId: conversation.id,
+    messageId,
+    query: question?.content ?? "",
+    rewrittenQuery: answer.rewrittenQuery,
+    answer: answer.content,
+    sources: (answer.sources ?? []).map((source) => ({
+      id: source.id,
+      title: source.title,
+      url: source.url,
+      citation: source.citation,
+      relevancy: source.relevancy,
+      similarity: source.similarity,
+      fusedScore: source.fusedScore,
+      rerankScore: source.rerankScore,
+    })),
+    prompt: answer.prompt,
+    model: answer.model,
+  };
+}
+
+export function formatFeedbackJsonl(records: FeedbackRecord[]): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+}
+
+const CSV_COLUMNS: [string, (record: FeedbackRecord) => unknown][] = [
+  ["id", (record) => record.id],
+  ["createdAt", (record) => record.createdAt],
+  ["rating", (record) => record.rating],
+  ["comment", (record) => record.comment],
+  ["kind", (record) => record.kind],
+  ["conversationId", (record) => record.conversationId],
+  ["messageId", (record) => record.messageId],
+  ["query", (record) => record.query],
+  ["rewrittenQuery", (record) => record.rewrittenQuery],
+  ["answer", (record) => record.answer],
+  ["sourceIds", (record) => record.sources.map((source) => source.id).join(" ")],
+  [
+    "sourceScores",
+    (record) =>
+      record.sources
+        .map((source) =>
+          (
+            source.rerankScore ??
+            source.relevancy ??
+            source.similarity ??
+            source.fusedScore ??
+            0
+          ).toFixed(3)
+        )
+        .join(" "),
+  ],
+  ["promptId", (record) => record.prompt?.id],
+  ["promptVersion", (record) => record.prompt?.version],
+  ["model", (record) => record.model],
+];
+
+/**
+ * CSV with one row per feedback record. Sources are flattened into
+ * space-separated id and score columns; use JSONL for the full detail.
+ */
+export function formatFeedbackCsv(records: FeedbackRecord[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...records.map((record) => CSV_COLUMNS.map(([, value]) => value(record))),
+  ];
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas; the quote makes
+  // them plain text. Comments and answers can contain anything.
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
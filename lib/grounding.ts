@@ -0,0 +1,161 @@
+import { generateObject, type DataStreamWriter } from "ai";
+import { toJsonAnnotation } from "@/lib/annotations";
+import { getModel } from "@/lib/models";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+import { findTextSpan } from "@/lib/utils";
+import type {
+  ChatSource,
+  ClaimSupport,
+  EvidenceSpan,
+  GroundedClaim,
+  GroundingAnnotation,
+} from "@/types/chat";
+
+const groundingSchema = z.object({
+  claims: z.array(
+    z.object({
+      sentence: z
+        .string()
+        .describe("The answer sentence containing the claim, copied verbatim"),
+      claim: z.string().describe("A single factual claim made by the sentence"),
+      support: z.enum(["supported", "partial", "unsupported"]),
+      evidence: z
+        .array(
+          z.object({
+            citation: z.number().describe("Number of the supporting document"),
+            quote: z
+              .string()
+              .describe("Exact text copied from the document that supports the claim"),
+          })
+        )
+        .describe("Supporting quotes; empty when the claim is unsupported"),
+    })
+  ),
+});
+
+// Data an answer may state besides its documents, such as the weather
+// readings a tool returned. Claims it backs count as supported.
+export interface GroundingEvidence {
+  id: string;
+  title: string;
+  text: string;
+}
+
+interface GroundingOptions {
+  abortSignal?: AbortSignal;
+  toolEvidence?: GroundingEvidence[];
+}
+
+/**
+ * Whether answers should be verified against their sources after
+ * generation. Off by default since it costs an extra model call per answer.
+ */
+export function isGroundingCheckEnabled(): boolean {
+  return process.env.GROUNDING_CHECK === "true";
+}
+
+/**
+ * Split an answer into factual claims and check each one against the
+ * sources it was generated from, and any tool evidence. Evidence quotes are
+ * located in the source text; a claim whose quotes cannot be found is
+ * reported as unsupported, so the model cannot vouch for a claim without
+ * pointing at real text.
+ */
+export async function checkGrounding(
+  answer: string,
+  sources: ChatSource[],
+  { abortSignal, toolEvidence = [] }: GroundingOptions = {}
+): Promise<GroundingAnnotation> {
+  if (!answer.trim()) {
+    return { type: "grounding", status: "done", claims: [], unsupportedCount: 0 };
+  }
+
+  // Tool evidence is numbered after the documents and has no citation of its own
+  const numbered = sources.map((source, index) => ({
+    id: source.id,
+    title: source.title,
+    text: source.snippet,
+    number: source.citation ?? index + 1,
+    citation: source.citation,
+  }));
+  let nextNumber = Math.max(0, ...numbered.map(({ number }) => number)) + 1;
+  for (const evidence of toolEvidence) {
+    numbered.push({ ...evidence, number: nextNumber++, citation: undefined });
+  }
+  const context = numbered
+    .map(({ number, title, text }) => `[${number}] ${title}:\n${text}`)
+    .join("\n\n==========\n\n");
+
+  const { object } = await generateObject({
+    model: getModel("utility"),
+    temperature: 0,
+    schema: groundingSchema,
+    system: `You verify answers from a travel advisory assistant against the documents they were based on. Documents include data returned by the assistant's tools, such as weather readings and forecasts.
+- Split the answer into its factual claims. Skip greetings, caveats and suggestions that make no factual claim.
+- For each claim decide whether the documents support it fully ("supported"), only in part ("partial"), or not at all ("unsupported"). Anything not stated in the documents, including advisory levels, is unsupported even if it is true.
+- For supported and partial claims, quote the exact supporting text from the documents. Never paraphrase quotes.`,
+    prompt: `Documents:\n${context || "(none)"}\n\nAnswer:\n${answer}`,
+    abortSignal,
+  });
+
+  const claims = object.claims.map((claim): GroundedClaim => {
+    const evidence = claim.evidence.flatMap((item): EvidenceSpan[] => {
+      const match = numbered.find(({ number }) => number === item.citation);
+      const span = match && findTextSpan(match.text, item.quote);
+      if (!match || !span) return [];
+      return [
+        {
+          citation: match.citation,
+          sourceId: match.id,
+          text: match.text.slice(span.start, span.end),
+          ...span,
+        },
+      ];
+    });
+    const support: ClaimSupport =
+      claim.support !== "unsupported" && !evidence.length
+        ? "unsupported"
+        : claim.support;
+
+    return {
+      sentence: claim.sentence.trim(),
+      claim: claim.claim.trim(),
+      support,
+      evidence: support === "unsupported" ? [] : evidence,
+    };
+  });
+
+  return {
+    type: "grounding",
+    status: "done",
+    claims,
+    unsupportedCount: claims.filter((claim) => claim.support === "unsupported")
+      .length,
+  };
+}
+
+/**
+ * Run the grounding check on a finished answer and send its result as a
+ * message annotation. A "checking" annotation is sent first so the UI can
+ * show that verification is in progress.
+ */
+export async function streamGroundingCheck(
+  dataStream: DataStreamWriter,
+  answer: string,
+  sources: ChatSource[],
+  options: GroundingOptions = {}
+): Promise<void> {
+  const write = (annotation: GroundingAnnotation) =>
+    dataStream.writeMessageAnnotation(toJsonAnnotation(annotation));
+
+  try {
+    write({ type: "grounding", status: "checking", claims: [], unsupportedCount: 0 });
+    write(await checkGrounding(answer, sources, options));
+  } catch (error) {
+    // Nobody is listening for the result of a cancelled request
+    if (options.abortSignal?.aborted) return;
+    logger.warn("Grounding check failed", { error });
+    write({ type: "grounding", status: "failed", claims: [], unsupportedCount: 0 });
+  }
+}
@@ -0,0 +1,241 @@
+import { createHash } from "crypto";
+import path from "path";
+import {
+  chunkText,
+  DEFAULT_CHUNKING_OPTIONS,
+  type ChunkingOptions,
+} from "@/lib/chunking";
+import { ValidationError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  createVectorStore,
+  isWritableVectorStore,
+  type ChunkRecord,
+  type VectorStore,
+} from "@/lib/vector-store";
+
+export type IngestFileType = "markdown" | "html" | "text" | "pdf";
+
+export interface IngestFile {
+  /** Original file name, used for type detection and as the display name */
+  name: string;
+  /** MIME type reported by the client, if any */
+  mimeType?: string;
+  data: Uint8Array;
+}
+
+export interface IngestOptions extends Partial<ChunkingOptions> {
+  /**
+   * Stable identifier for the document (e.g. its URL). Re-ingesting with the
+   * same source replaces the previous chunks. Defaults to the file name.
+   */
+  source?: string;
+  /** Human readable title. Defaults to the file name */
+  displayName?: string;
+}
+
+export interface IngestResult {
+  source: string;
+  sourceDisplayName: string;
+  type: IngestFileType;
+  status: "ingested" | "unchanged" | "empty";
+  chunks: number;
+  originId: string;
+}
+
+const EXTENSION_TYPES: Record<string, IngestFileType> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".mdx": "markdown",
+  ".html": "html",
+  ".htm": "html",
+  ".txt": "text",
+  ".text": "text",
+  ".pdf": "pdf",
+};
+
+const FILE_TYPE_LABELS: Record<IngestFileType, string> = {
+  markdown: "Markdown",
+  html: "HTML",
+  text: "plain text",
+  pdf: "a PDF",
+};
+
+const MIME_TYPES: Record<string, IngestFileType> = {
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/html": "html",
+  "text/plain": "text",
+  "application/pdf": "pdf",
+};
+
+export function detectFileType(
+  name: string,
+  mimeType?: string
+): IngestFileType | null {
+  const byExtension = EXTENSION_TYPES[path.extname(name).toLowerCase()];
+  if (byExtension) return byExtension;
+  const baseMime = mimeType?.split(";")[0].trim().toLowerCase();
+  return (baseMime && MIME_TYPES[baseMime]) || null;
+}
+
+/**
+ * Extract plain text from a supported file. Throws if the file is not valid
+ * for its type, e.g. a damaged PDF or text that is not UTF-8.
+ */
+export async function extractText(
+  file: IngestFile,
+  type: IngestFileType
+): Promise<string> {
+  switch (type) {
+    case "pdf": {
+      // Loaded lazily so the PDF.js bundle is only pulled in when needed
+      const { extractText: extractPdfText, getDocumentProxy } = await import(
+        "unpdf"
+      );
+      const pdf = await getDocumentProxy(new Uint8Array(file.data));
+      const { text } = await extractPdfText(pdf, { mergePages: false });
+      return text.join("\n\n");
+    }
+    case "html":
+      return htmlToText(decodeUtf8(file.data));
+    case "markdown":
+      return markdownToText(decodeUtf8(file.data));
+    case "text":
+    default:
+      return decodeUtf8(file.data);
+  }
+}
+
+/**
+ * Parse, chunk and write a document to the configured vector store.
+ * If the store already holds identical content for the same source the
+ * document is skipped; otherwise its previous chunks are replaced.
+ * Unsupported or unreadable files throw a ValidationError.
+ */
+export async function ingestDocument(
+  file: IngestFile,
+  options: IngestOptions = {},
+  store: VectorStore = createVectorStore()
+): Promise<IngestResult> {
+  if (!isWritableVectorStore(store)) {
+    throw new ValidationError(
+      "The configured vector store does not support ingestion. Set VECTOR_STORE=local or upload documents through the Vectorize dashboard."
+    );
+  }
+
+  const type = detectFileType(file.name, file.mimeType);
+  if (!type) {
+    throw new ValidationError(
+      `Unsupported file type for "${file.name}". Supported: Markdown, HTML, plain text and PDF.`
+    );
+  }
+
+  const source = options.source || file.name;
+  const sourceDisplayName = options.displayName || file.name;
+  let text: string;
+  try {
+    text = await extractText(file, type);
+  } catch (error) {
+    logger.warn("Failed to parse document", { file: file.name, type, error });
+    throw new ValidationError(
+      `Could not read "${file.name}" as ${FILE_TYPE_LABELS[type]}. Check that the file is not damaged and has the right extension.`
+    );
+  }
+  const chunking: ChunkingOptions = {
+    chunkSize: options.chunkSize ?? DEFAULT_CHUNKING_OPTIONS.chunkSize,
+    chunkOverlap: options.chunkOverlap ?? DEFAULT_CHUNKING_OPTIONS.chunkOverlap,
+  };
+  const chunks = chunkText(text, chunking);
+
+  // The origin id changes whenever the content or chunking settings change
+  const originId = createHash("sha256")
+    .update(`${chunking.chunkSize}:${chunking.chunkOverlap}\n`)
+    .update(text)
+    .digest("hex")
+    .slice(0, 32);
+
+  const result: IngestResult = {
+    source,
+    sourceDisplayName,
+    type,
+    status: "ingested",
+    chunks: chunks.length,
+    originId,
+  };
+
+  if (!chunks.length) {
+    await store.deleteBySource(source);
+    return { ...result, status: "empty" };
+  }
+
+  if ((await store.getSourceOriginId(source)) === originId) {
+    return { ...result, status: "unchanged" };
+  }
+
+  const records: ChunkRecord[] = chunks.map((chunk, index) => ({
+    id: createHash("sha256")
+      .update(`${source}:${originId}:${index}`)
+      .digest("hex")
+      .slice(0, 32),
+    text: chunk,
+    source,
+    source_display_name: sourceDisplayName,
+    chunk_id: String(index + 1),
+    total_chunks: String(chunks.length),
+    origin_id: originId,
+    unique_source: source,
+  }));
+
+  await store.replaceSourceChunks(source, records);
+  return result;
+}
+
+function decodeUtf8(data: Uint8Array): string {
+  // Binary data uploaded as text is rejected instead of ingested as garbage
+  return new TextDecoder("utf-8", { fatal: true }).decode(data);
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|blockquote|pre|ul|ol|table)>/gi, "\n\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity.startsWith("#x") || entity.startsWith("#X")) {
+        return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      }
+      if (entity.startsWith("#")) {
+        return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n[ \t]+/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, "") // Front matter
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1") // Keep code block contents
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // Images -> alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Links -> link text
+    .replace(/^#{1,6}\s+/gm, "") // Heading markers
+    .replace(/(\*\*|__)(.*?)\1/g, "$2") // Bold
+    .replace(/`([^`]+)`/g, "$1") // Inline code
+    .trim();
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildItinerary,
+  checkTripDates,
+  formatTripRequest,
+  nightsBetween,
+  notableRegionWarnings,
+} from "@/lib/itinerary";
+import type { AdvisoryLevel, TravelAdvisory } from "@/types/advisory";
+import type { ItineraryLeg, TripLeg } from "@/types/itinerary";
+
+const today = new Date("2026-06-01T12:00:00Z");
+
+function advisory(level: AdvisoryLevel | null, regionLevels: AdvisoryLevel[] = []): TravelAdvisory {
+  return {
+    country: "Mexico",
+    countryCode: "MX",
+    level,
+    levelLabel: null,
+    updatedAt: null,
+    sections: [],
+    regions: regionLevels.map((regionLevel, i) => ({
+      region: `Region ${i + 1}`,
+      level: regionLevel,
+      reason: null,
+      chunkId: "a",
+    })),
+    sources: [],
+  };
+}
+
+function itineraryLeg(leg: TripLeg, level: AdvisoryLevel | null): ItineraryLeg {
+  return {
+    ...leg,
+    country: leg.destination,
+    countryCode: null,
+    nights: nightsBetween(leg.startDate, leg.endDate),
+    advisory: level ? advisory(level) : null,
+    regionWarnings: [],
+    forecast: null,
+    notes: [],
+    suggestions: [],
+  };
+}
+
+describe("nightsBetween", () => {
+  it("counts nights, with none for a day trip or reversed dates", () => {
+    expect(nightsBetween("2026-06-10", "2026-06-14")).toBe(4);
+    expect(nightsBetween("2026-06-10", "2026-06-10")).toBe(0);
+    expect(nightsBetween("2026-06-14", "2026-06-10")).toBe(0);
+  });
+});
+
+describe("notableRegionWarnings", () => {
+  it("keeps level 3 and 4 regions, most severe first", () => {
+    const regions = notableRegionWarnings(advisory(2, [3, 2, 4]));
+    expect(regions.map((region) => region.level)).toEqual([4, 3]);
+    expect(notableRegionWarnings(null)).toEqual([]);
+  });
+});
+
+describe("checkTripDates", () => {
+  it("accepts consecutive legs that share a travel day", () => {
+    expect(
+      checkTripDates(
+        [
+          { destination: "Japan", startDate: "2026-06-10", endDate: "2026-06-14" },
+          { destination: "Korea", startDate: "2026-06-14", endDate: "2026-06-18" },
+        ],
+        today
+      )
+    ).toEqual([]);
+  });
+
+  it("reports reversed, past, overlapping and gapped legs", () => {
+    expect(
+      checkTripDates(
+        [
+          { destination: "Japan", startDate: "2026-05-20", endDate: "2026-06-14" },
+          { destination: "Korea", startDate: "2026-06-12", endDate: "2026-06-10" },
+          { destination: "Peru", startDate: "2026-06-13", endDate: "2026-06-20" },
+        ],
+        today
+      )
+    ).toEqual([
+      "Leg 1 (Japan) starts in the past, on 2026-05-20.",
+      "Leg 2 (Korea) ends on 2026-06-10, before it starts on 2026-06-12.",
+      "Leg 2 (Korea) starts on 2026-06-12, before leg 1 (Japan) ends on 2026-06-14.",
+      "2 days are unplanned between Korea and Peru.",
+    ]);
+  });
+});
+
+describe("buildItinerary", () => {
+  it("spans the legs and reports the highest advisory level", () => {
+    const itinerary = buildItinerary(
+      [
+        itineraryLeg({ destination: "Japan", startDate: "2026-06-10", endDate: "2026-06-14" }, 1),
+        itineraryLeg(
+          { destination: "Atlantis", startDate: "2026-06-14", endDate: "2026-06-16" },
+          null
+        ),
+        itineraryLeg({ destination: "Mexico", startDate: "2026-06-16", endDate: "2026-06-20" }, 2),
+      ],
+      today
+    );
+    expect(itinerary.startDate).toBe("2026-06-10");
+    expect(itinerary.endDate).toBe("2026-06-20");
+    expect(itinerary.highestLevel).toBe(2);
+    expect(itinerary.warnings).toEqual([]);
+  });
+
+  it("has no level when no leg has an advisory", () => {
+    const itinerary = buildItinerary(
+      [
+        itineraryLeg(
+          { destination: "Atlantis", startDate: "2026-06-10", endDate: "2026-06-12" },
+          null
+        ),
+      ],
+      today
+    );
+    expect(itinerary.highestLevel).toBeNull();
+  });
+});
+
+describe("formatTripRequest", () => {
+  it("numbers the legs, with the city when given", () => {
+    expect(
+      formatTripRequest([
+        { destination: "Japan", city: "Osaka", startDate: "2026-06-10", endDate: "2026-06-14" },
+        { destination: "Korea", startDate: "2026-06-14", endDate: "2026-06-18" },
+      ])
+    ).toBe(
+      [
+        "Plan my trip and report the risks for each leg:",
+        "1. Japan (Osaka), 2026-06-10 to 2026-06-14",
+        "2. Korea, 2026-06-14 to 2026-06-18",
+      ].join("\n")
+    );
+  });
+});
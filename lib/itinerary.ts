@@ -0,0 +1,89 @@
+import type { AdvisoryLevel, RegionalWarning, TravelAdvisory } from "@/types/advisory";
+import type { Itinerary, ItineraryLeg, TripLeg } from "@/types/itinerary";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most legs planTrip reports on in one call
+export const MAX_TRIP_LEGS = 8;
+
+// Regional warnings worth flagging on an itinerary
+const NOTABLE_REGION_LEVEL: AdvisoryLevel = 3;
+
+// Nights between two YYYY-MM-DD dates; 0 for a day trip
+export function nightsBetween(startDate: string, endDate: string): number {
+  return Math.max(0, Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS));
+}
+
+// An advisory's "Reconsider Travel" and "Do Not Travel" regions, most severe first
+export function notableRegionWarnings(advisory: TravelAdvisory | null): RegionalWarning[] {
+  return (advisory?.regions ?? [])
+    .filter((region) => region.level >= NOTABLE_REGION_LEVEL)
+    .sort((a, b) => b.level - a.level);
+}
+
+/**
+ * Problems with the dates of a trip, in leg order: legs that end before they
+ * start or start before the previous one ends, gaps between legs, and days
+ * already past.
+ */
+export function checkTripDates(legs: TripLeg[], today = new Date()): string[] {
+  const warnings: string[] = [];
+  const todayDate = today.toISOString().slice(0, 10);
+  legs.forEach((leg, i) => {
+    if (leg.endDate < leg.startDate) {
+      warnings.push(
+        `Leg ${i + 1} (${leg.destination}) ends on ${leg.endDate}, before it starts on ${leg.startDate}.`
+      );
+    }
+    if (leg.startDate < todayDate) {
+      warnings.push(`Leg ${i + 1} (${leg.destination}) starts in the past, on ${leg.startDate}.`);
+    }
+    const previous = legs[i - 1];
+    if (!previous) return;
+    // Travelling on the last day of a leg and arriving the same day is usual
+    if (leg.startDate < previous.endDate) {
+      warnings.push(
+        `Leg ${i + 1} (${leg.destination}) starts on ${leg.startDate}, before leg ${i} (${previous.destination}) ends on ${previous.endDate}.`
+      );
+    } else {
+      const gap = nightsBetween(previous.endDate, leg.startDate) - 1;
+      if (gap > 0) {
+        warnings.push(
+          `${gap} ${gap === 1 ? "day is" : "days are"} unplanned between ${previous.destination} and ${leg.destination}.`
+        );
+      }
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Assemble the itinerary report from its legs, in travel order: the trip's
+ * dates, its highest advisory level and any problems with the dates.
+ */
+export function buildItinerary(legs: ItineraryLeg[], today = new Date()): Itinerary {
+  const levels = legs
+    .map((leg) => leg.advisory?.level)
+    .filter((level): level is AdvisoryLevel => level != null);
+  const startDates = legs.map((leg) => leg.startDate).sort();
+  const endDates = legs.map((leg) => leg.endDate).sort();
+  return {
+    startDate: startDates[0],
+    endDate: endDates[endDates.length - 1],
+    legs,
+    highestLevel: levels.length ? (Math.max(...levels) as AdvisoryLevel) : null,
+    warnings: checkTripDates(legs, today),
+  };
+}
+
+/**
+ * The chat message the agent UI's trip planner sends: one numbered line per
+ * leg, which the agent passes to planTrip.
+ */
+export function formatTripRequest(legs: TripLeg[]): string {
+  const lines = legs.map((leg, i) => {
+    const place = leg.city ? `${leg.destination} (${leg.city})` : leg.destination;
+    return `${i + 1}. ${place}, ${leg.startDate} to ${leg.endDate}`;
+  });
+  return ["Plan my trip and report the risks for each leg:", ...lines].join("\n");
+}
@@ -0,0 +1,105 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { JsonFile } from "@/lib/json-file";
+import type { ApiKeyStore } from "@/lib/api-keys";
+import type { ApiKeyLimits, ApiKeyRecord, ApiKeySummary } from "@/types/auth";
+
+const DEFAULT_STORE_PATH = ".data/api-keys.json";
+const STORE_FILE_VERSION = 1;
+// Issued keys look like "ga_<43 url-safe characters>"
+const KEY_PREFIX = "ga_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+interface ApiKeyStoreFile {
+  version: number;
+  keys: ApiKeyRecord[];
+}
+
+/**
+ * API key store backed by a JSON file, for a single server.
+ */
+export class JsonApiKeyStore implements ApiKeyStore {
+  private file: JsonFile<ApiKeyStoreFile>;
+
+  constructor(filePath?: string) {
+    this.file = new JsonFile<ApiKeyStoreFile>(
+      filePath || process.env.API_KEY_STORE_PATH || DEFAULT_STORE_PATH,
+      {
+        createEmpty: () => ({ version: STORE_FILE_VERSION, keys: [] }),
+      }
+    );
+  }
+
+  async list(): Promise<ApiKeySummary[]> {
+    const data = await this.file.read();
+    return data.keys
+      .map(toApiKeySummary)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async create(
+    name: string,
+    limits?: ApiKeyLimits
+  ): Promise<{ key: string; record: ApiKeySummary }> {
+    const { key, prefix, hash } = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name,
+      prefix,
+      hash,
+      createdAt: new Date().toISOString(),
+      ...(limits && Object.keys(limits).length ? { limits } : {}),
+    };
+
+    await this.file.update((data) => ({
+      ...data,
+      keys: [...data.keys, record],
+    }));
+    return { key, record: toApiKeySummary(record) };
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const data = await this.file.read();
+    return data.keys.find((record) => record.id === id) ?? null;
+  }
+
+  async findByKey(key: string): Promise<ApiKeyRecord | null> {
+    const hash = hashApiKey(key);
+    const data = await this.file.read();
+    return (
+      data.keys.find((record) => record.hash === hash && !record.revokedAt) ??
+      null
+    );
+  }
+
+  async revoke(id: string): Promise<ApiKeySummary | null> {
+    let revoked: ApiKeyRecord | null = null;
+    await this.file.update((data) => ({
+      ...data,
+      keys: data.keys.map((record) => {
+        if (record.id !== id) return record;
+        revoked = record.revokedAt
+          ? record
+          : { ...record, revokedAt: new Date().toISOString() };
+        return revoked;
+      }),
+    }));
+    return revoked ? toApiKeySummary(revoked) : null;
+  }
+}
+
+function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  };
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toApiKeySummary({ hash, ...summary }: ApiKeyRecord): ApiKeySummary {
+  return summary;
+}
@@ -0,0 +1,150 @@
+import { randomUUID } from "crypto";
+import { JsonFile } from "@/lib/json-file";
+import type {
+  ConversationListOptions,
+  ConversationStore,
+} from "@/lib/conversation-store";
+import type {
+  ChatMessageWithSources,
+  Conversation,
+  ConversationKind,
+  ConversationMemory,
+  ConversationSummary,
+} from "@/types/chat";
+
+const DEFAULT_STORE_PATH = ".data/conversations.json";
+const STORE_FILE_VERSION = 1;
+// Titles derived from the first user message are cut to this length
+const MAX_TITLE_LENGTH = 80;
+
+interface ConversationStoreFile {
+  version: number;
+  conversations: Conversation[];
+}
+
+/**
+ * Conversation store backed by a single JSON file. Fine for a demo or a
+ * single server; every write rewrites the whole file.
+ */
+export class JsonConversationStore implements ConversationStore {
+  private file: JsonFile<ConversationStoreFile>;
+
+  constructor(filePath?: string) {
+    this.file = new JsonFile<ConversationStoreFile>(
+      filePath || process.env.CONVERSATION_STORE_PATH || DEFAULT_STORE_PATH,
+      {
+        createEmpty: () => ({ version: STORE_FILE_VERSION, conversations: [] }),
+      }
+    );
+  }
+
+  async list({
+    kind,
+    ownerId,
+  }: ConversationListOptions = {}): Promise<ConversationSummary[]> {
+    const data = await this.file.read();
+    return data.conversations
+      .filter((conversation) => !kind || conversation.kind === kind)
+      .filter((conversation) => !ownerId || conversation.ownerId === ownerId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ messages, ...summary }) => ({
+        ...summary,
+        messageCount: messages.length,
+      }));
+  }
+
+  async create(
+    kind: ConversationKind,
+    title = "",
+    ownerId?: string
+  ): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      kind,
+      title: title.trim(),
+      ...(ownerId ? { ownerId } : {}),
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+
+    await this.file.update((data) => ({
+      ...data,
+      conversations: [...data.conversations, conversation],
+    }));
+    return conversation;
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    const data = await this.file.read();
+    return data.conversations.find((conversation) => conversation.id === id) ?? null;
+  }
+
+  async rename(id: string, title: string): Promise<Conversation | null> {
+    return this.modify(id, (conversation) => ({
+      ...conversation,
+      title: title.trim(),
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.file.update((data) => {
+      const conversations = data.conversations.filter(
+        (conversation) => conversation.id !== id
+      );
+      deleted = conversations.length !== data.conversations.length;
+      return { ...data, conversations };
+    });
+    return deleted;
+  }
+
+  async appendMessages(
+    id: string,
+    messages: ChatMessageWithSources[]
+  ): Promise<Conversation | null> {
+    return this.modify(id, (conversation) => {
+      const firstUserMessage = messages.find((message) => message.role === "user");
+      return {
+        ...conversation,
+        title:
+          conversation.title ||
+          (firstUserMessage ? deriveTitle(firstUserMessage.content) : ""),
+        messages: [...conversation.messages, ...messages],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  async updateMemory(
+    id: string,
+    memory: ConversationMemory
+  ): Promise<Conversation | null> {
+    return this.modify(id, (conversation) => ({ ...conversation, memory }));
+  }
+
+  private async modify(
+    id: string,
+    change: (conversation: Conversation) => Conversation
+  ): Promise<Conversation | null> {
+    let updated: Conversation | null = null;
+    await this.file.update((data) => ({
+      ...data,
+      conversations: data.conversations.map((conversation) => {
+        if (conversation.id !== id) return conversation;
+        updated = change(conversation);
+        return updated;
+      }),
+    }));
+    return updated;
+  }
+}
+
+function deriveTitle(content: string): string {
+  const title = content.replace(/\s+/g, " ").trim();
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : title;
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+interface JsonFileOptions<T> {
+  /** Contents used when the file does not exist yet */
+  createEmpty: () => T;
+  /** Throws when a loaded file cannot be used */
+  validate?: (data: T) => void;
+}
+
+// Shared across instances so concurrent requests see each other's writes
+const fileCache = new Map<string, { mtimeMs: number; data: unknown }>();
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * A JSON document persisted to a single file. Reads are cached until the
+ * file's mtime changes; writes to the same file are serialised and go
+ * through a temp file + rename so readers never see partial JSON.
+ */
+export class JsonFile<T> {
+  readonly filePath: string;
+  private options: JsonFileOptions<T>;
+
+  constructor(filePath: string, options: JsonFileOptions<T>) {
+    this.filePath = path.resolve(filePath);
+    this.options = options;
+  }
+
+  /**
+   * Current contents. The returned object is shared with other readers and
+   * must not be mutated; use update() instead.
+   */
+  async read(): Promise<T> {
+    let stat;
+    try {
+      stat = await fs.stat(this.filePath);
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return this.options.createEmpty();
+      }
+      throw error;
+    }
+
+    const cached = fileCache.get(this.filePath);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached.data as T;
+    }
+
+    const data: T = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    this.options.validate?.(data);
+
+    fileCache.set(this.filePath, { mtimeMs: stat.mtimeMs, data });
+    return data;
+  }
+
+  /**
+   * Replace the contents with `mutate(current)` and persist the result.
+   * `mutate` must return a new object rather than modify `current`.
+   */
+  async update(mutate: (current: T) => T): Promise<T> {
+    const previous = writeQueues.get(this.filePath) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const data = mutate(await this.read());
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(data));
+        await fs.rename(tempPath, this.filePath);
+
+        const stat = await fs.stat(this.filePath);
+        fileCache.set(this.filePath, { mtimeMs: stat.mtimeMs, data });
+        return data;
+      });
+
+    writeQueues.set(this.filePath, next);
+    return next;
+  }
+}
@@ -0,0 +1,186 @@
+import { cosineSimilarity } from "ai";
+import { Bm25Index } from "@/lib/bm25";
+import { embedText, embedTexts, getEmbeddingModelId } from "@/lib/embeddings";
+import { JsonFile } from "@/lib/json-file";
+import { RetrievalError } from "@/lib/errors";
+import type { ChunkRecord, WritableVectorStore } from "@/lib/vector-store";
+import type {
+  RetrievedDocument,
+  VectorizeDocument,
+} from "@/types/vectorize";
+
+const DEFAULT_STORE_PATH = ".data/vector-store.json";
+const STORE_FILE_VERSION = 1;
+
+interface LocalStoreChunk extends ChunkRecord {
+  embedding: number[];
+}
+
+interface LocalStoreFile {
+  version: number;
+  embeddingModel: string;
+  chunks: LocalStoreChunk[];
+}
+
+// Keyword indexes are rebuilt lazily whenever a new file snapshot is loaded
+const keywordIndexes = new WeakMap<LocalStoreFile, Bm25Index<LocalStoreChunk>>();
+
+/**
+ * File-persisted vector store. Embeddings and metadata live in a single JSON
+ * file and queries are answered with a brute-force cosine similarity scan,
+ * which is plenty for corpora of a few thousand chunks.
+ */
+export class LocalVectorStore implements WritableVectorStore {
+  private file: JsonFile<LocalStoreFile>;
+
+  constructor(filePath?: string) {
+    this.file = new JsonFile<LocalStoreFile>(
+      filePath || process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_STORE_PATH,
+      {
+        createEmpty: emptyStoreFile,
+        validate: (data) => {
+          if (data.embeddingModel !== getEmbeddingModelId()) {
+            throw new RetrievalError(
+              `Local vector store at ${this.file.filePath} was built with ${data.embeddingModel} but ${getEmbeddingModelId()} is configured. Re-ingest the corpus or change the embedding settings.`
+            );
+          }
+        },
+      }
+    );
+  }
+
+  async retrieveDocuments(
+    question: string,
+    numResults: number = 10,
+    { abortSignal }: { abortSignal?: AbortSignal } = {}
+  ): Promise<VectorizeDocument[]> {
+    const data = await this.load();
+    if (!data.chunks.length) return [];
+
+    const queryEmbedding = await embedText(question, { abortSignal });
+
+    return data.chunks
+      .map((chunk) => ({
+        chunk,
+        similarity: cosineSimilarity(queryEmbedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, numResults)
+      .map(({ chunk, similarity }) => toVectorizeDocument(chunk, similarity));
+  }
+
+  async keywordSearch(
+    query: string,
+    numResults: number = 10,
+    { abortSignal }: { abortSignal?: AbortSignal } = {}
+  ): Promise<RetrievedDocument[]> {
+    const data = await this.load();
+    abortSignal?.throwIfAborted();
+    let index = keywordIndexes.get(data);
+    if (!index) {
+      index = new Bm25Index(data.chunks, (chunk) => chunk.text);
+      keywordIndexes.set(data, index);
+    }
+
+    return index.search(query, numResults).map(({ item, score }) => ({
+      ...toVectorizeDocument(item, 0),
+      keywordScore: score,
+    }));
+  }
+
+  async getSourceChunks(
+    uniqueSource: string,
+    { chunkIds }: { chunkIds?: string[] } = {}
+  ): Promise<VectorizeDocument[]> {
+    const data = await this.load();
+    return data.chunks
+      .filter((chunk) => chunk.unique_source === uniqueSource)
+      .filter((chunk) => !chunkIds || chunkIds.includes(chunk.chunk_id))
+      .sort((a, b) => Number(a.chunk_id) - Number(b.chunk_id))
+      .map((chunk) => toVectorizeDocument(chunk, 0));
+  }
+
+  /**
+   * Embed `chunks` and swap them in for every chunk currently stored under
+   * `source`, in a single write so readers never see a half-ingested file.
+   */
+  async replaceSourceChunks(
+    source: string,
+    chunks: ChunkRecord[]
+  ): Promise<void> {
+    const embeddings = await embedTexts(chunks.map((chunk) => chunk.text));
+    const incoming = chunks.map((chunk, index) => ({
+      ...chunk,
+      embedding: embeddings[index],
+    }));
+
+    await this.file.update((data) => ({
+      ...data,
+      chunks: [
+        ...data.chunks.filter((chunk) => chunk.source !== source),
+        ...incoming,
+      ],
+    }));
+  }
+
+  async getSourceOriginId(source: string): Promise<string | null> {
+    const data = await this.load();
+    const existing = data.chunks.find((chunk) => chunk.source === source);
+    return existing ? existing.origin_id : null;
+  }
+
+  /**
+   * Remove every chunk that belongs to the given source. Returns the number
+   * of chunks removed.
+   */
+  async deleteBySource(source: string): Promise<number> {
+    let removed = 0;
+    await this.file.update((data) => {
+      const chunks = data.chunks.filter((chunk) => chunk.source !== source);
+      removed = data.chunks.length - chunks.length;
+      return { ...data, chunks };
+    });
+    return removed;
+  }
+
+  private load(): Promise<LocalStoreFile> {
+    return this.file.read();
+  }
+}
+
+function emptyStoreFile(): LocalStoreFile {
+  return {
+    version: STORE_FILE_VERSION,
+    embeddingModel: getEmbeddingModelId(),
+    chunks: [],
+  };
+}
+
+export function toVectorizeDocument(
+  chunk: ChunkRecord,
+  similarity: number
+): VectorizeDocument {
+  return {
+    id: chunk.id,
+    text: chunk.text,
+    source: chunk.source,
+    source_display_name: chunk.source_display_name,
+    chunk_id: chunk.chunk_id,
+    total_chunks: chunk.total_chunks,
+    origin: "local",
+    origin_id: chunk.origin_id,
+    unique_source: chunk.unique_source,
+    org_id: "local",
+    pipeline_id: "local",
+    similarity,
+    relevancy: similarity,
+    // Camel case duplicates
+    chunkId: chunk.chunk_id,
+    totalChunks: chunk.total_chunks,
+    originId: chunk.origin_id,
+    uniqueSource: chunk.unique_source,
+    sourceDisplayName: chunk.source_display_name,
+    pipelineId: "local",
+    orgId: "local",
+  };
+}
@@ -0,0 +1,66 @@
+import { getActiveSpan } from "@/lib/tracing";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds `fields` to every line */
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function getLogLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase();
+  return level in LEVELS ? (level as LogLevel) : "info";
+}
+
+/**
+ * Structured logger writing one JSON object per line. Lines written inside
+ * a span carry its trace and span ids, so logs can be joined to traces.
+ * LOG_LEVEL (debug, info, warn, error; default info) sets the threshold.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < LEVELS[getLogLevel()]) return;
+    const span = getActiveSpan();
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...bindings,
+      ...fields,
+      ...(span ? { traceId: span.traceId, spanId: span.spanId } : {}),
+    }, replaceErrors);
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  };
+}
+
+export const logger = createLogger();
+
+// Errors have no enumerable properties, so JSON.stringify would print {}
+function replaceErrors(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(value.cause !== undefined ? { cause: value.cause } : {}),
+    };
+  }
+  return value;
+}
@@ -0,0 +1,170 @@
+import { generateObject } from "ai";
+import { getModel } from "@/lib/models";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+import { estimateTokens, truncateToTokens } from "@/lib/tokens";
+import type { ConversationMemory } from "@/types/chat";
+
+export interface MemoryOptions {
+  /** Number of most recent messages kept word for word */
+  recentMessages?: number;
+  /** Token budget of the running summary of older messages */
+  summaryTokens?: number;
+  /** Aborts summarization, e.g. when the client disconnects */
+  abortSignal?: AbortSignal;
+}
+
+export interface MemoryResult<T> {
+  /** Messages to send to the model verbatim */
+  recentMessages: T[];
+  /** Updated memory, to be passed back in on the next turn */
+  memory: ConversationMemory;
+  /** Whether older messages were folded into the summary on this turn */
+  updated: boolean;
+}
+
+// Folded messages are clipped so long answers do not crowd out the rest
+const FOLD_MESSAGE_CHARS = 1500;
+const MAX_TRACKED_COUNTRIES = 10;
+const MAX_TRACKED_TOPICS = 8;
+
+const foldSchema = z.object({
+  summary: z.string().describe("Updated running summary of the conversation"),
+  country: z
+    .string()
+    .nullable()
+    .describe("Country the user is currently asking about, or null"),
+  countries: z.array(z.string()).describe("Every country mentioned so far"),
+  topics: z
+    .array(z.string())
+    .describe("Travel topics the user cares about, e.g. visas, crime, health"),
+});
+
+export function getDefaultMemoryOptions(): Required<
+  Omit<MemoryOptions, "abortSignal">
+> {
+  return {
+    recentMessages: Number(process.env.MEMORY_RECENT_MESSAGES) || 6,
+    summaryTokens: Number(process.env.MEMORY_SUMMARY_TOKENS) || 400,
+  };
+}
+
+export function emptyMemory(): ConversationMemory {
+  return {
+    summary: "",
+    summarizedCount: 0,
+    entities: { country: null, countries: [], topics: [] },
+  };
+}
+
+/**
+ * Split a conversation into recent turns, kept word for word, and older
+ * turns, folded into a running summary with a small structured state of
+ * key entities (e.g. the country under discussion).
+ *
+ * Pass the memory returned on the previous turn to fold only the messages
+ * that have left the recent window since; without it the summary is built
+ * from scratch. If summarization fails the previous memory is kept.
+ */
+export async function buildMemory<T extends { role: string; content: string }>(
+  messages: T[],
+  previous: ConversationMemory | undefined,
+  options: MemoryOptions = {}
+): Promise<MemoryResult<T>> {
+  const { recentMessages, summaryTokens, abortSignal } = {
+    ...getDefaultMemoryOptions(),
+    ...options,
+  };
+  const olderCount = Math.max(0, messages.length - recentMessages);
+  const recent = messages.slice(olderCount);
+
+  // A shorter history than was summarized means a different conversation
+  const base =
+    previous && previous.summarizedCount <= olderCount ? previous : emptyMemory();
+  const toFold = messages.slice(base.summarizedCount, olderCount);
+  if (!toFold.length) {
+    return { recentMessages: recent, memory: base, updated: false };
+  }
+
+  const transcript = toFold
+    .map(
+      (message) =>
+        `${message.role === "user" ? "User" : "Assistant"}: ${message.content
+          .replace(/\s+/g, " ")
+          .slice(0, FOLD_MESSAGE_CHARS)}`
+    )
+    .join("\n");
+
+  try {
+    const { object } = await generateObject({
+      model: getModel("utility"),
+      temperature: 0,
+      schema: foldSchema,
+      system: `You maintain the memory of a conversation with GoAware, a travel advisory assistant.
+- Merge the new messages into the existing summary. Keep facts the user shared about themselves and their trip, the countries discussed, advisory levels and conclusions reached.
+- Keep the summary under ${Math.floor(summaryTokens * 0.75)} words; drop small talk first.
+- Update the entities: the country currently under discussion, every country mentioned, and the topics the user cares about.`,
+      prompt: `Existing summary:\n${base.summary || "(none)"}
+
+Existing entities:\n${JSON.stringify(base.entities)}
+
+New messages:\n${transcript}`,
+      abortSignal,
+    });
+
+    const summary = object.summary.trim();
+    return {
+      recentMessages: recent,
+      memory: {
+        summary:
+          estimateTokens(summary) > summaryTokens
+            ? truncateToTokens(summary, summaryTokens) ?? ""
+            : summary,
+        summarizedCount: olderCount,
+        entities: {
+          country: object.country?.trim() || base.entities.country,
+          countries: uniqueTail(object.countries, MAX_TRACKED_COUNTRIES),
+          topics: uniqueTail(object.topics, MAX_TRACKED_TOPICS),
+        },
+      },
+      updated: true,
+    };
+  } catch (error) {
+    if (abortSignal?.aborted) throw error;
+    logger.warn("Conversation summarization failed", { error });
+    return { recentMessages: recent, memory: base, updated: false };
+  }
+}
+
+/**
+ * Render memory for a system prompt. Empty when nothing has been folded.
+ */
+export function formatMemoryForPrompt(memory: ConversationMemory): string {
+  const { summary, entities } = memory;
+  const lines = [
+    summary && `Summary of earlier conversation: ${summary}`,
+    entities.country && `Country under discussion: ${entities.country}`,
+    entities.countries.length > 0 &&
+      `Countries mentioned: ${entities.countries.join(", ")}`,
+    entities.topics.length > 0 && `Topics of interest: ${entities.topics.join(", ")}`,
+  ].filter(Boolean);
+
+  if (!lines.length) return "";
+  return `=== CONVERSATION MEMORY ===
+${lines.join("\n")}
+=== END CONVERSATION MEMORY ===`;
+}
+
+/**
+ * Deduplicate (case-insensitively) and keep the last `limit` items.
+ */
+function uniqueTail(items: string[], limit: number): string[] {
+  const seen = new Map<string, string>();
+  for (const item of items) {
+    const value = item.trim();
+    if (!value) continue;
+    seen.delete(value.toLowerCase());
+    seen.set(value.toLowerCase(), value);
+  }
+  return [...seen.values()].slice(-limit);
+}
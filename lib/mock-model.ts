@@ -0,0 +1,238 @@
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import { estimateTokens } from "@/lib/tokens";
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+};
+
+/**
+ * A scripted reply. The first rule whose `match` (a case-insensitive regular
+ * expression) matches the latest user message is used; a rule without
+ * `match` matches everything.
+ */
+export interface MockRule {
+  match?: string;
+  /** Tool calls made before answering, once per user message */
+  toolCalls?: { toolName: string; args: Record<string, unknown> }[];
+  /** Answer text, sent after any tool calls have returned */
+  text?: string;
+  /** Result for generateObject calls */
+  object?: unknown;
+}
+
+interface MockReply {
+  text?: string;
+  toolCalls?: {
+    toolCallType: "function";
+    toolCallId: string;
+    toolName: string;
+    args: string;
+  }[];
+  finishReason: "stop" | "tool-calls";
+}
+
+const scriptCache = new Map<string, MockRule[]>();
+
+function loadScript(scriptPath: string): MockRule[] {
+  const resolved = path.resolve(scriptPath);
+  let rules = scriptCache.get(resolved);
+  if (!rules) {
+    rules = JSON.parse(readFileSync(resolved, "utf8")) as MockRule[];
+    scriptCache.set(resolved, rules);
+  }
+  return rules;
+}
+
+/**
+ * Deterministic offline language model for development and demos.
+ *
+ * - `mock:echo` answers every message with an echo of it.
+ * - `mock:script` replies from the JSON rules in MOCK_MODEL_SCRIPT (see
+ *   MockRule), falling back to an echo when no rule matches.
+ *
+ * Object generation returns the rule's `object`, or an empty instance of the
+ * requested schema ("" strings, 0 numbers, [] arrays), which makes the
+ * query rewriter, reranker, memory and grounding check fall back to their
+ * non-LLM behaviour.
+ */
+export class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1" as const;
+  readonly provider = "mock";
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode = "json" as const;
+  readonly supportsStructuredOutputs = true;
+  private rules: MockRule[];
+
+  constructor(modelId: string = "echo") {
+    if (modelId !== "echo" && modelId !== "script") {
+      throw new Error(`Unknown mock model "${modelId}". Expected "echo" or "script".`);
+    }
+    this.modelId = modelId;
+
+    const scriptPath = process.env.MOCK_MODEL_SCRIPT;
+    if (modelId === "script" && !scriptPath) {
+      throw new Error("MOCK_MODEL_SCRIPT must point to a JSON rules file for mock:script");
+    }
+    this.rules = modelId === "script" && scriptPath ? loadScript(scriptPath) : [];
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    // Honour cancellation like a provider's fetch would
+    options.abortSignal?.throwIfAborted();
+    const reply = this.reply(options);
+    return {
+      ...reply,
+      usage: this.usage(options.prompt, reply),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    options.abortSignal?.throwIfAborted();
+    const reply = this.reply(options);
+    const chunks: LanguageModelV1StreamPart[] = [];
+
+    // Stream word by word so the UI behaves as with a real model
+    for (const word of reply.text?.match(/\S+\s*|\s+/g) ?? []) {
+      chunks.push({ type: "text-delta", textDelta: word });
+    }
+    for (const toolCall of reply.toolCalls ?? []) {
+      chunks.push({ type: "tool-call", ...toolCall });
+    }
+    chunks.push({
+      type: "finish",
+      finishReason: reply.finishReason,
+      usage: this.usage(options.prompt, reply),
+    });
+
+    return {
+      stream: simulateReadableStream({ chunks }),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  private reply({ mode, prompt }: LanguageModelV1CallOptions): MockReply {
+    const userText = latestUserText(prompt);
+    const rule = this.rules.find(
+      (candidate) => !candidate.match || new RegExp(candidate.match, "i").test(userText)
+    );
+
+    if (mode.type === "object-json") {
+      return {
+        text: JSON.stringify(rule?.object ?? emptyInstance(mode.schema as JsonSchema)),
+        finishReason: "stop",
+      };
+    }
+    if (mode.type === "object-tool") {
+      return {
+        toolCalls: [
+          {
+            toolCallType: "function",
+            toolCallId: "mock-call-0",
+            toolName: mode.tool.name,
+            args: JSON.stringify(
+              rule?.object ?? emptyInstance(mode.tool.parameters as JsonSchema)
+            ),
+          },
+        ],
+        finishReason: "tool-calls",
+      };
+    }
+
+    const availableTools = new Set(mode.tools?.map((tool) => tool.name) ?? []);
+    const toolCalls = (rule?.toolCalls ?? []).filter((call) =>
+      availableTools.has(call.toolName)
+    );
+    if (toolCalls.length && !hasToolResultsSinceUser(prompt)) {
+      return {
+        toolCalls: toolCalls.map((call, index) => ({
+          toolCallType: "function",
+          toolCallId: `mock-call-${index}`,
+          toolName: call.toolName,
+          args: JSON.stringify(call.args),
+        })),
+        finishReason: "tool-calls",
+      };
+    }
+
+    return {
+      text: rule?.text ?? `This is a mock response to: ${userText}`,
+      finishReason: "stop",
+    };
+  }
+
+  private usage(prompt: LanguageModelV1Prompt, reply: MockReply) {
+    return {
+      promptTokens: estimateTokens(JSON.stringify(prompt)),
+      completionTokens: estimateTokens(
+        (reply.text ?? "") + JSON.stringify(reply.toolCalls ?? [])
+      ),
+    };
+  }
+}
+
+function latestUserText(prompt: LanguageModelV1Prompt): string {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const message = prompt[i];
+    if (message.role === "user") {
+      return message.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("")
+        .trim();
+    }
+  }
+  return "";
+}
+
+function hasToolResultsSinceUser(prompt: LanguageModelV1Prompt): boolean {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    if (prompt[i].role === "user") return false;
+    if (prompt[i].role === "tool") return true;
+  }
+  return false;
+}
+
+/**
+ * Smallest value matching a JSON schema, preferring null for nullable
+ * values and the first option of enums and unions.
+ */
+function emptyInstance(schema: JsonSchema | undefined): unknown {
+  if (!schema) return {};
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return emptyInstance(schema.anyOf[0]);
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes("null")) return null;
+  switch (types[0]) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          emptyInstance(value),
+        ])
+      );
+    case "array":
+      return [];
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return {};
+  }
+}
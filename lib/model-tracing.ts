@@ -0,0 +1,99 @@
+import {
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import { onStreamEnd } from "@/lib/response-end";
+import { runInSpan, startSpan, withSpan, type Attributes } from "@/lib/tracing";
+
+/**
+ * Records every call to the model as an "llm.call" span, i.e. one span per
+ * step of a multi-step streamText run. Attributes follow the OpenTelemetry
+ * GenAI semantic conventions (gen_ai.*).
+ */
+const tracingMiddleware: LanguageModelV1Middleware = {
+  wrapGenerate: ({ doGenerate, params, model }) =>
+    withSpan(
+      "llm.call",
+      async (span) => {
+        const result = await doGenerate();
+        span.setAttributes({
+          "gen_ai.response.model": result.response?.modelId,
+          "gen_ai.response.finish_reasons": [result.finishReason],
+          "gen_ai.usage.input_tokens": result.usage.promptTokens,
+          "gen_ai.usage.output_tokens": result.usage.completionTokens,
+          "llm.tool_calls": result.toolCalls?.map((call) => call.toolName),
+        });
+        return result;
+      },
+      { kind: "client", attributes: requestAttributes(model, params, false) }
+    ),
+
+  wrapStream: async ({ doStream, params, model }) => {
+    const span = startSpan("llm.call", {
+      kind: "client",
+      attributes: requestAttributes(model, params, true),
+    });
+    let result: Awaited<ReturnType<typeof doStream>>;
+    try {
+      result = await runInSpan(span, doStream);
+    } catch (error) {
+      span.recordException(error);
+      span.end();
+      throw error;
+    }
+
+    // The call lasts until the stream is drained, cancelled or fails, so the
+    // span ends there
+    const toolCalls: string[] = [];
+    const parts = result.stream.pipeThrough(
+      new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          if (part.type === "tool-call") {
+            toolCalls.push(part.toolName);
+          } else if (part.type === "response-metadata") {
+            span.setAttribute("gen_ai.response.model", part.modelId);
+          } else if (part.type === "finish") {
+            span.setAttributes({
+              "gen_ai.response.finish_reasons": [part.finishReason],
+              "gen_ai.usage.input_tokens": part.usage.promptTokens,
+              "gen_ai.usage.output_tokens": part.usage.completionTokens,
+            });
+          } else if (part.type === "error") {
+            span.recordException(part.error);
+          }
+          controller.enqueue(part);
+        },
+      })
+    );
+    const stream = onStreamEnd(parts, (end) => {
+      if (toolCalls.length) span.setAttribute("llm.tool_calls", toolCalls);
+      if (end.type === "cancelled") span.addEvent("cancelled");
+      if (end.type === "error") span.recordException(end.error);
+      span.end();
+    });
+    return { ...result, stream };
+  },
+};
+
+/** Wrap a model so its calls are traced. */
+export function withModelTracing(model: LanguageModelV1): LanguageModelV1 {
+  return wrapLanguageModel({ model, middleware: tracingMiddleware });
+}
+
+function requestAttributes(
+  model: LanguageModelV1,
+  params: LanguageModelV1CallOptions,
+  streaming: boolean
+): Attributes {
+  return {
+    "gen_ai.system": model.provider,
+    "gen_ai.request.model": model.modelId,
+    "gen_ai.request.temperature": params.temperature,
+    "gen_ai.request.max_tokens": params.maxTokens,
+    "llm.mode": params.mode.type,
+    "llm.streaming": streaming,
+  };
+}
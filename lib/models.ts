@@ -0,0 +1,96 @@
+import { openai } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+import { FallbackLanguageModel } from "@/lib/fallback-model";
+import { MockLanguageModel } from "@/lib/mock-model";
+import { withModelTracing } from "@/lib/model-tracing";
+import { withUsageMetering } from "@/lib/usage-meter";
+
+/**
+ * What a model is used for. Each route has its own role so it can be pointed
+ * at a different model; "utility" covers the small structured calls (query
+ * rewriting, reranking, memory summaries and grounding checks).
+ */
+export type ModelRole = "chat" | "agent" | "agents-sdk" | "utility";
+
+type ProviderFactory = (modelId: string) => LanguageModelV1;
+
+/**
+ * Available providers, keyed by the prefix used in model specs such as
+ * "openai:gpt-4o-mini" or "mock:echo".
+ */
+const PROVIDERS: Record<string, ProviderFactory> = {
+  openai: (modelId) => openai(modelId),
+  mock: (modelId) => new MockLanguageModel(modelId),
+};
+
+const DEFAULT_MODELS: Record<ModelRole, string> = {
+  chat: "openai:gpt-4o-mini",
+  agent: "openai:gpt-4o-mini",
+  "agents-sdk": "openai:gpt-4o",
+  utility: "openai:gpt-4o-mini",
+};
+
+const MODEL_ENV_VARS: Record<ModelRole, string> = {
+  chat: "CHAT_MODEL",
+  agent: "AGENT_MODEL",
+  "agents-sdk": "AGENTS_SDK_MODEL",
+  utility: "UTILITY_MODEL",
+};
+
+/**
+ * Ordered model specs for a role. The role's environment variable holds a
+ * comma-separated fallback chain, e.g. "openai:gpt-4o-mini,openai:gpt-4o";
+ * MODEL_PROVIDER=mock replaces every chain with the offline mock model.
+ */
+export function getModelChain(role: ModelRole): string[] {
+  if (process.env.MODEL_PROVIDER === "mock") {
+    return [`mock:${process.env.MOCK_MODEL_SCRIPT ? "script" : "echo"}`];
+  }
+
+  const specs = (process.env[MODEL_ENV_VARS[role]] || DEFAULT_MODELS[role])
+    .split(",")
+    .map((spec) => spec.trim())
+    .filter(Boolean);
+  return specs.length ? specs : [DEFAULT_MODELS[role]];
+}
+
+/**
+ * Model id of the first model in a role's chain without its provider prefix,
+ * e.g. "gpt-4o-mini". Used to pick per-model settings like context budgets.
+ */
+export function getModelName(role: ModelRole): string {
+  return parseModelSpec(getModelChain(role)[0]).modelId;
+}
+
+/**
+ * Language model for a role, wrapped in a fallback chain when more than one
+ * model is configured. Each model in the chain is traced and metered
+ * separately, so fallback attempts show up as their own spans and are
+ * priced at their own rates.
+ */
+export function getModel(role: ModelRole): LanguageModelV1 {
+  const models = getModelChain(role).map((spec) => {
+    const { provider, modelId } = parseModelSpec(spec);
+    const factory = PROVIDERS[provider];
+    if (!factory) {
+      throw new Error(
+        `Unknown model provider "${provider}" in ${MODEL_ENV_VARS[role]}. Expected one of ${Object.keys(PROVIDERS).join(", ")}.`
+      );
+    }
+    return withUsageMetering(withModelTracing(factory(modelId)));
+  });
+
+  return models.length === 1 ? models[0] : new FallbackLanguageModel(models);
+}
+
+/**
+ * Split "provider:model" into its parts. A bare model id means OpenAI.
+ */
+function parseModelSpec(spec: string): { provider: string; modelId: string } {
+  const separator = spec.indexOf(":");
+  if (separator === -1) return { provider: "openai", modelId: spec };
+  return {
+    provider: spec.slice(0, separator).toLowerCase(),
+    modelId: spec.slice(separator + 1),
+  };
+}
@@ -0,0 +1,59 @@
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Built-in prices for the default models, keyed by model id. MODEL_PRICES
+ * adds to or overrides them.
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "mock:echo": { input: 0, output: 0 },
+  "mock:script": { input: 0, output: 0 },
+};
+
+let cachedPrices: { source: string | undefined; prices: Record<string, ModelPrice> } | undefined;
+
+/**
+ * The price table: the defaults plus MODEL_PRICES, a JSON object such as
+ * `{"gpt-4o-mini":{"input":0.15,"output":0.6}}`. Keys are a model id or a
+ * "provider:modelId" spec, the latter taking precedence.
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  const source = process.env.MODEL_PRICES;
+  if (cachedPrices && cachedPrices.source === source) return cachedPrices.prices;
+
+  let overrides: Record<string, ModelPrice> = {};
+  if (source) {
+    try {
+      overrides = JSON.parse(source);
+    } catch {
+      throw new Error("MODEL_PRICES must be a JSON object of model prices");
+    }
+  }
+  const prices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  cachedPrices = { source, prices };
+  return prices;
+}
+
+/**
+ * Cost in USD of a model call, or null when the model is not in the price
+ * table.
+ */
+export function estimateCost(
+  provider: string,
+  modelId: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  const prices = getModelPrices();
+  const price = prices[`${provider}:${modelId}`] ?? prices[modelId];
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1e6;
+}
@@ -0,0 +1,137 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { PromptRef } from "@/types/chat";
+
+/**
+ * Variables each prompt template expects. Templates live in
+ * prompts/<id>/v<version>.md and reference variables as {{name}}.
+ */
+export interface PromptVariables {
+  "chat-rag": {
+    contextDocuments: string;
+    memory: string;
+  };
+  "goaware-agent": {
+    country: string;
+    date: string;
+    memory: string;
+  };
+  "agents-sdk-assistant": {
+    date: string;
+  };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface RenderedPrompt extends PromptRef {
+  id: PromptId;
+  text: string;
+}
+
+const DEFAULT_PROMPTS_DIR = "prompts";
+const VERSION_FILE_PATTERN = /^v(\d+)\.md$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Template files are re-read only when they change on disk
+const templateCache = new Map<string, { mtimeMs: number; text: string }>();
+
+function getPromptsDir(): string {
+  return path.resolve(process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR);
+}
+
+/**
+ * Versions pinned with PROMPT_VERSIONS, e.g. "chat-rag=1,goaware-agent=2".
+ * Prompts without a pin use their latest version.
+ */
+function getPinnedVersions(): Map<string, number> {
+  const pins = new Map<string, number>();
+  for (const entry of (process.env.PROMPT_VERSIONS || "").split(",")) {
+    const [id, version] = entry.split("=").map((part) => part.trim());
+    if (id && Number.isInteger(Number(version))) {
+      pins.set(id, Number(version));
+    }
+  }
+  return pins;
+}
+
+/**
+ * Versions available for a prompt, ascending.
+ */
+export async function listPromptVersions(id: PromptId): Promise<number[]> {
+  const files = await fs.readdir(path.join(getPromptsDir(), id)).catch(
+    (error) => {
+      if (error?.code === "ENOENT") return [] as string[];
+      throw error;
+    }
+  );
+  return files
+    .map((file) => VERSION_FILE_PATTERN.exec(file)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+async function loadTemplate(id: PromptId, version: number): Promise<string> {
+  const filePath = path.join(getPromptsDir(), id, `v${version}.md`);
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat) {
+    throw new Error(`Prompt template ${id} v${version} not found at ${filePath}`);
+  }
+
+  const cached = templateCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.text;
+
+  const text = (await fs.readFile(filePath, "utf8")).trim();
+  templateCache.set(filePath, { mtimeMs: stat.mtimeMs, text });
+  return text;
+}
+
+/**
+ * Load a prompt template (the pinned version, or the latest) and fill in
+ * its variables. Throws when the template is missing or references a
+ * variable that was not provided, so a bad template fails loudly instead of
+ * sending "{{name}}" to the model.
+ */
+export async function renderPrompt<Id extends PromptId>(
+  id: Id,
+  variables: PromptVariables[Id]
+): Promise<RenderedPrompt> {
+  const version = getPinnedVersions().get(id) ?? (await listPromptVersions(id)).pop();
+  if (version === undefined) {
+    throw new Error(`No versions found for prompt template ${id}`);
+  }
+
+  const template = await loadTemplate(id, version);
+  const values = variables as unknown as Record<string, string>;
+  const text = template
+    .replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      if (!(name in values)) {
+        throw new Error(
+          `Prompt template ${id} v${version} uses unknown variable ${placeholder}`
+        );
+      }
+      return values[name];
+    })
+    // Empty optional sections (e.g. no memory yet) leave runs of blank lines
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { id, version, text };
+}
+
+/**
+ * Headers identifying the prompt that produced a response.
+ */
+export function promptHeaders(prompt: PromptRef): Record<string, string> {
+  return {
+    "X-Prompt-Id": prompt.id,
+    "X-Prompt-Version": String(prompt.version),
+  };
+}
+
+/**
+ * Today's date for prompts, e.g. "2025-06-30".
+ */
+export function currentDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
@@ -0,0 +1,142 @@
+import { generateObject } from "ai";
+import { getModel } from "@/lib/models";
+import { logger } from "@/lib/logger";
+import { withSpan } from "@/lib/tracing";
+import { z } from "zod";
+
+export interface ConversationMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+}
+
+export interface RewrittenQuery {
+  /** Standalone search query for the latest user message */
+  query: string;
+  /** The standalone query followed by any alternative phrasings */
+  queries: string[];
+  /** Whether an LLM rewrite was applied (false when passed through) */
+  rewritten: boolean;
+}
+
+export interface QueryRewriteOptions {
+  /** Number of alternative queries to generate for multi-query retrieval */
+  multiQuery?: number;
+  /** Number of earlier messages considered when resolving references */
+  historyLimit?: number;
+  /** Memory of turns older than the history, e.g. formatMemoryForPrompt() */
+  memory?: string;
+  /** Aborts rewriting, e.g. when the client disconnects */
+  abortSignal?: AbortSignal;
+}
+
+// Individual history messages are clipped so long answers do not dominate
+const HISTORY_MESSAGE_CHARS = 600;
+
+const rewriteSchema = z.object({
+  standaloneQuery: z
+    .string()
+    .describe("Self-contained search query for the latest user message"),
+  alternativeQueries: z
+    .array(z.string())
+    .describe("Alternative phrasings of the standalone query"),
+});
+
+export function getDefaultQueryRewriteOptions(): Required<
+  Omit<QueryRewriteOptions, "memory" | "abortSignal">
+> {
+  return {
+    multiQuery: Number(process.env.MULTI_QUERY_COUNT) || 0,
+    historyLimit: Number(process.env.QUERY_REWRITE_HISTORY) || 6,
+  };
+}
+
+/**
+ * Turn the conversation into a standalone search query for retrieval, so a
+ * follow-up like "what about its visa rules?" becomes "Japan visa rules".
+ * Optionally also produces alternative phrasings for multi-query retrieval.
+ *
+ * The first message of a conversation is used as-is unless multi-query
+ * expansion is enabled. Rewriting failures fall back to the raw message.
+ */
+export function rewriteQuery(
+  messages: ConversationMessage[],
+  options: QueryRewriteOptions = {}
+): Promise<RewrittenQuery> {
+  return withSpan("query.rewrite", async (span) => {
+    const result = await rewrite(messages, options);
+    span.setAttributes({
+      "query.rewritten": result.rewritten,
+      "query.count": result.queries.length,
+    });
+    return result;
+  });
+}
+
+async function rewrite(
+  messages: ConversationMessage[],
+  options: QueryRewriteOptions
+): Promise<RewrittenQuery> {
+  const { multiQuery, historyLimit } = {
+    ...getDefaultQueryRewriteOptions(),
+    ...options,
+  };
+  const memory = options.memory?.trim() ?? "";
+  const conversation = messages.filter((message) => message.role !== "system");
+  const latest = conversation[conversation.length - 1];
+  const rawQuery = latest?.content?.trim() ?? "";
+  const passthrough: RewrittenQuery = {
+    query: rawQuery,
+    queries: rawQuery ? [rawQuery] : [],
+    rewritten: false,
+  };
+
+  const history = conversation.slice(-historyLimit - 1, -1);
+  if (
+    !rawQuery ||
+    latest.role !== "user" ||
+    process.env.QUERY_REWRITE === "false" ||
+    (!history.length && !memory && multiQuery <= 0)
+  ) {
+    return passthrough;
+  }
+
+  const transcript = history
+    .map(
+      (message) =>
+        `${message.role === "user" ? "User" : "Assistant"}: ${message.content
+          .replace(/\s+/g, " ")
+          .slice(0, HISTORY_MESSAGE_CHARS)}`
+    )
+    .join("\n");
+
+  try {
+    const { object } = await generateObject({
+      model: getModel("utility"),
+      temperature: 0,
+      schema: rewriteSchema,
+      system: `You rewrite the user's latest message into a standalone search query for a travel advisory knowledge base.
+- Resolve pronouns and references ("it", "there", "that country") using the conversation.
+- Keep country names, regions, advisory levels and other exact terms.
+- Do not answer the question; output only search queries.
+- Return exactly ${multiQuery} alternative queries${multiQuery ? " that use different wording or focus on different aspects" : ""}.`,
+      prompt: `${memory ? `${memory}\n\n` : ""}${transcript ? `Conversation so far:\n${transcript}\n\n` : ""}Latest user message: ${rawQuery}`,
+      abortSignal: options.abortSignal,
+    });
+
+    const query = object.standaloneQuery.trim() || rawQuery;
+    const alternatives = object.alternativeQueries
+      .map((alternative) => alternative.trim())
+      .filter((alternative) => alternative && alternative !== query)
+      .slice(0, multiQuery);
+
+    return {
+      query,
+      queries: [query, ...alternatives],
+      rewritten: true,
+    };
+  } catch (error) {
+    if (options.abortSignal?.aborted) throw error;
+    logger.warn("Query rewriting failed", { error });
+    return passthrough;
+  }
+}
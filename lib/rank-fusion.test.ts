@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { reciprocalRankFusion } from "@/lib/rank-fusion";
+
+const byKey = (item: string) => item;
+
+describe("reciprocalRankFusion", () => {
+  it("scores each item by weight / (k + rank) summed over the lists", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { name: "vector", weight: 1, items: ["a", "b"] },
+        { name: "keyword", weight: 1, items: ["b", "c"] },
+      ],
+      byKey,
+      60
+    );
+    expect(fused.map((result) => result.item)).toEqual(["b", "a", "c"]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[0].foundBy).toEqual(["vector", "keyword"]);
+    expect(fused[1].foundBy).toEqual(["vector"]);
+  });
+
+  it("lets a heavier list win ties", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { name: "vector", weight: 1, items: ["a"] },
+        { name: "keyword", weight: 2, items: ["b"] },
+      ],
+      byKey
+    );
+    expect(fused.map((result) => result.item)).toEqual(["b", "a"]);
+    expect(fused[0].score).toBeCloseTo(2 / 61);
+  });
+
+  it("ignores lists with no weight", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { name: "vector", weight: 1, items: ["a"] },
+        { name: "keyword", weight: 0, items: ["b", "a"] },
+      ],
+      byKey
+    );
+    expect(fused).toEqual([{ item: "a", score: 1 / 61, foundBy: ["vector"] }]);
+  });
+
+  it("merges duplicates within a list once per list name", () => {
+    const fused = reciprocalRankFusion(
+      [{ name: "q", weight: 1, items: ["a", "a"] }],
+      byKey,
+      0
+    );
+    expect(fused).toEqual([{ item: "a", score: 1 + 1 / 2, foundBy: ["q"] }]);
+  });
+});
@@ -0,0 +1,49 @@
+export interface RankedList<T, N extends string = string> {
+  name: N;
+  /** Multiplier applied to this list's reciprocal rank contributions */
+  weight: number;
+  /** Items ordered from most to least relevant */
+  items: T[];
+}
+
+export interface FusedResult<T, N extends string = string> {
+  item: T;
+  score: number;
+  /** Names of the lists the item appeared in, in list order */
+  foundBy: N[];
+}
+
+/**
+ * Weighted reciprocal rank fusion (Cormack et al., 2009).
+ * Each list contributes weight / (k + rank) for every item it contains, so
+ * items ranked highly by several retrievers float to the top without the
+ * lists' raw scores needing to be comparable.
+ */
+export function reciprocalRankFusion<T, N extends string>(
+  lists: RankedList<T, N>[],
+  getKey: (item: T) => string,
+  k: number = 60
+): FusedResult<T, N>[] {
+  const fused = new Map<string, FusedResult<T, N>>();
+
+  for (const list of lists) {
+    if (list.weight <= 0) continue;
+
+    list.items.forEach((item, index) => {
+      const key = getKey(item);
+      const contribution = list.weight / (k + index + 1);
+      const existing = fused.get(key);
+
+      if (existing) {
+        existing.score += contribution;
+        if (!existing.foundBy.includes(list.name)) {
+          existing.foundBy.push(list.name);
+        }
+      } else {
+        fused.set(key, { item, score: contribution, foundBy: [list.name] });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,133 @@
+import type { ApiKeyLimits } from "@/types/auth";
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Seconds until a request would be allowed (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+export interface DailyUsage {
+  requests: number;
+  tokens: number;
+}
+
+/**
+ * Counters behind rate limiting and quotas. The in-memory default suits a
+ * single server; a shared store (e.g. Redis) can implement the same
+ * interface for several instances.
+ */
+export interface RateLimitStore {
+  /**
+   * Take one token from a bucket holding up to `capacity` tokens that
+   * refills at `refillPerSecond`.
+   */
+  takeToken(
+    bucket: string,
+    capacity: number,
+    refillPerSecond: number
+  ): Promise<RateLimitDecision>;
+  getDailyUsage(bucket: string, day: string): Promise<DailyUsage>;
+  addDailyUsage(
+    bucket: string,
+    day: string,
+    usage: Partial<DailyUsage>
+  ): Promise<DailyUsage>;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket>();
+  private daily = new Map<string, DailyUsage>();
+  private currentDay = "";
+
+  async takeToken(
+    bucket: string,
+    capacity: number,
+    refillPerSecond: number
+  ): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const state = this.buckets.get(bucket) ?? { tokens: capacity, updatedAt: now };
+    const elapsedSeconds = (now - state.updatedAt) / 1000;
+    const tokens = Math.min(capacity, state.tokens + elapsedSeconds * refillPerSecond);
+
+    if (tokens < 1) {
+      this.buckets.set(bucket, { tokens, updatedAt: now });
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((1 - tokens) / refillPerSecond),
+      };
+    }
+    this.buckets.set(bucket, { tokens: tokens - 1, updatedAt: now });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  async getDailyUsage(bucket: string, day: string): Promise<DailyUsage> {
+    return this.daily.get(`${day}:${bucket}`) ?? { requests: 0, tokens: 0 };
+  }
+
+  async addDailyUsage(
+    bucket: string,
+    day: string,
+    usage: Partial<DailyUsage>
+  ): Promise<DailyUsage> {
+    // Earlier days are no longer needed once a new day starts
+    if (day !== this.currentDay) {
+      for (const key of this.daily.keys()) {
+        if (!key.startsWith(`${day}:`)) this.daily.delete(key);
+      }
+      this.currentDay = day;
+    }
+    const current = await this.getDailyUsage(bucket, day);
+    const updated = {
+      requests: current.requests + (usage.requests ?? 0),
+      tokens: current.tokens + (usage.tokens ?? 0),
+    };
+    this.daily.set(`${day}:${bucket}`, updated);
+    return updated;
+  }
+}
+
+// Kept on globalThis so every route bundle and hot reload shares one store
+const globalForRateLimit = globalThis as { rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+  globalForRateLimit.rateLimitStore ??= new MemoryRateLimitStore();
+  return globalForRateLimit.rateLimitStore;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Limits for callers without per-key overrides. A limit of 0 disables it.
+ */
+export function getDefaultLimits(): Required<ApiKeyLimits> {
+  return {
+    requestsPerMinute: envNumber("RATE_LIMIT_PER_MINUTE", 30),
+    burst: envNumber("RATE_LIMIT_BURST", 10),
+    dailyRequests: envNumber("DAILY_REQUEST_QUOTA", 1000),
+    dailyTokens: envNumber("DAILY_TOKEN_QUOTA", 500000),
+  };
+}
+
+/** Quotas reset at midnight UTC. */
+export function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function secondsUntilNextUtcDay(date = new Date()): number {
+  const next = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() + 1
+  );
+  return Math.max(1, Math.ceil((next - date.getTime()) / 1000));
+}
@@ -0,0 +1,172 @@
+import { generateObject } from "ai";
+import { getModel } from "@/lib/models";
+import { z } from "zod";
+import { tokenize } from "@/lib/bm25";
+import type { RetrievedDocument } from "@/types/vectorize";
+
+export type RerankerName = "none" | "lexical" | "llm";
+
+/**
+ * Second-stage scorer. Receives the top candidates from first-stage
+ * retrieval and returns them rescored against the query, best first.
+ */
+export interface Reranker {
+  name: RerankerName;
+  rerank(
+    query: string,
+    documents: RetrievedDocument[],
+    options?: { abortSignal?: AbortSignal }
+  ): Promise<RetrievedDocument[]>;
+}
+
+/**
+ * Score from the first-stage backend, normalised to 0-1.
+ */
+export function originalScore(doc: RetrievedDocument): number {
+  return doc.relevancy || doc.similarity || 0;
+}
+
+function applyScores(
+  documents: RetrievedDocument[],
+  scores: number[]
+): RetrievedDocument[] {
+  return documents
+    .map((doc, index) => ({
+      ...doc,
+      originalScore: originalScore(doc),
+      originalRank: index + 1,
+      rerankScore: scores[index],
+    }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+}
+
+/**
+ * Offline heuristic reranker. Blends query term coverage, exact bigram
+ * (phrase) matches and the first-stage score, which rewards chunks that
+ * mention all of "Kenya", "level" and "3" over chunks that merely sound
+ * similar.
+ */
+export class LexicalReranker implements Reranker {
+  name = "lexical" as const;
+
+  async rerank(
+    query: string,
+    documents: RetrievedDocument[]
+  ): Promise<RetrievedDocument[]> {
+    const queryTokens = [...new Set(tokenize(query))];
+    const queryBigrams = bigrams(tokenize(query));
+
+    const scores = documents.map((doc) => {
+      if (!queryTokens.length) return originalScore(doc);
+
+      const docTokens = tokenize(doc.text);
+      const docTokenSet = new Set(docTokens);
+      const docBigrams = new Set(bigrams(docTokens));
+
+      const coverage =
+        queryTokens.filter((token) => docTokenSet.has(token)).length /
+        queryTokens.length;
+      const phrase = queryBigrams.length
+        ? queryBigrams.filter((bigram) => docBigrams.has(bigram)).length /
+          queryBigrams.length
+        : coverage;
+
+      return 0.5 * coverage + 0.25 * phrase + 0.25 * originalScore(doc);
+    });
+
+    return applyScores(documents, scores);
+  }
+}
+
+const llmScoresSchema = z.object({
+  scores: z.array(
+    z.object({
+      index: z.number().int().describe("Index of the passage"),
+      score: z
+        .number()
+        .min(0)
+        .max(10)
+        .describe("How well the passage answers the query, 0-10"),
+    })
+  ),
+});
+
+// Passages are truncated to keep the scoring prompt small
+const LLM_PASSAGE_CHARS = 1200;
+
+/**
+ * LLM-as-judge reranker. Asks the model to grade every candidate passage in
+ * one call and normalises the 0-10 grades to 0-1.
+ */
+export class LlmReranker implements Reranker {
+  name = "llm" as const;
+
+  async rerank(
+    query: string,
+    documents: RetrievedDocument[],
+    { abortSignal }: { abortSignal?: AbortSignal } = {}
+  ): Promise<RetrievedDocument[]> {
+    if (!documents.length) return documents;
+
+    const passages = documents
+      .map(
+        (doc, index) =>
+          `[${index}] ${doc.text.replace(/\s+/g, " ").slice(0, LLM_PASSAGE_CHARS)}`
+      )
+      .join("\n\n");
+
+    const { object } = await generateObject({
+      model: getModel("utility"),
+      temperature: 0,
+      schema: llmScoresSchema,
+      system:
+        "You grade search results. For each passage, score from 0 (irrelevant) to 10 (directly and fully answers the query). Score every passage exactly once.",
+      prompt: `Query: ${query}\n\nPassages:\n${passages}`,
+      abortSignal,
+    });
+
+    const grades = new Map(object.scores.map(({ index, score }) => [index, score]));
+    // Passages the model skipped keep a score derived from the first stage
+    const scores = documents.map((doc, index) =>
+      grades.has(index) ? grades.get(index)! / 10 : originalScore(doc) * 0.5
+    );
+
+    return applyScores(documents, scores);
+  }
+}
+
+export function getRerankerName(): RerankerName {
+  const name = (process.env.RERANKER || "none").toLowerCase();
+  if (name !== "none" && name !== "lexical" && name !== "llm") {
+    throw new Error(
+      `Unknown RERANKER "${name}". Expected "none", "lexical" or "llm".`
+    );
+  }
+  return name;
+}
+
+/**
+ * Create the reranker selected by name (defaults to the RERANKER
+ * environment variable). Returns null when reranking is disabled.
+ */
+export function createReranker(
+  name: RerankerName = getRerankerName()
+): Reranker | null {
+  switch (name) {
+    case "lexical":
+      return new LexicalReranker();
+    case "llm":
+      return new LlmReranker();
+    case "none":
+    default:
+      return null;
+  }
+}
+
+function bigrams(tokens: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    result.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+export type ResponseEnd =
+  | { type: "completed" }
+  | { type: "cancelled" }
+  | { type: "error"; error: unknown };
+
+/**
+ * Call `onEnd` once a response has been fully sent, the client has
+ * disconnected, or its body stream failed. For streamed answers this is
+ * after the last token, long after the route handler returned. `onEnd` is
+ * called at most once, even if the client cancels a fully read body.
+ */
+export function onResponseEnd(
+  response: Response,
+  callback: (end: ResponseEnd) => void
+): Response {
+  if (!response.body) {
+    callback({ type: "completed" });
+    return response;
+  }
+
+  return new Response(onStreamEnd(response.body, callback), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Pass a stream through, calling `onEnd` once it has been read to the end,
+ * cancelled by its reader, or failed.
+ */
+export function onStreamEnd<T>(
+  stream: ReadableStream<T>,
+  callback: (end: ResponseEnd) => void
+): ReadableStream<T> {
+  let ended = false;
+  const onEnd = (end: ResponseEnd) => {
+    if (ended) return;
+    ended = true;
+    callback(end);
+  };
+
+  const reader = stream.getReader();
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          onEnd({ type: "completed" });
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        onEnd({ type: "error", error });
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      onEnd({ type: "cancelled" });
+      return reader.cancel(reason);
+    },
+  });
+}
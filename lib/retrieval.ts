@@ -1,41 +1,358 @@
-import { VectorizeService } from "@/lib/vectorize";
-import type { ChatSource } from "@/types/chat";
+import { createVectorStore, type VectorStore } from "@/lib/vector-store";
+import { Bm25Index } from "@/lib/bm25";
+import { reciprocalRankFusion } from "@/lib/rank-fusion";
+import { createReranker, type Reranker } from "@/lib/rerank";
+import { expandNeighbors } from "@/lib/expansion";
+import {
+  convertDocumentsToChatSources,
+  packDocumentsForContext,
+} from "@/lib/documents";
+import { getContextTokenBudget } from "@/lib/tokens";
+import { RetrievalError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { withSpan } from "@/lib/tracing";
+import type { ChatSource, RetrieverName } from "@/types/chat";
+import type { RetrievedDocument } from "@/types/vectorize";
 
 export interface RetrievalResult {
   contextDocuments: string;
+  /** Sources that were actually placed in the context */
   sources: ChatSource[];
+  /** Sources that were retrieved but left out of the context */
+  omittedSources: ChatSource[];
+  /** Estimated tokens used by contextDocuments */
+  tokenCount: number;
+  tokenBudget: number;
+}
+
+export interface SearchOptions {
+  /** Aborts retrieval, e.g. when the client disconnects */
+  abortSignal?: AbortSignal;
+}
+
+export interface ContextOptions extends SearchOptions {
+  /** Model the context is for; selects the default token budget */
+  model?: string;
+  /** Explicit token budget, overriding the model default */
+  tokenBudget?: number;
+  /** Citation number of the first packed document (defaults to 1) */
+  firstCitation?: number;
+  /**
+   * Throw a RetrievalError when retrieval fails, instead of returning an
+   * empty context, so callers can tell an outage apart from a lack of
+   * matching documents
+   */
+  throwOnError?: boolean;
+}
+
+export interface RetrievalOptions {
+  /** Number of documents returned when no reranker is configured */
+  numResults: number;
+  /** RRF weight of the semantic (vector) results. 0 disables vector search */
+  vectorWeight: number;
+  /** RRF weight of the BM25 keyword results. 0 disables keyword search */
+  keywordWeight: number;
+  /** RRF rank constant; larger values flatten the contribution of top ranks */
+  rrfK: number;
+  /** Second-stage reranker, or null to keep the fused order */
+  reranker: Reranker | null;
+  /** Number of fused candidates handed to the reranker */
+  rerankTopN: number;
+  /** Number of documents kept after reranking */
+  rerankTopK: number;
+  /**
+   * Number of chunks on each side of a hit to merge into its passage.
+   * 0 disables neighbour expansion.
+   */
+  expandNeighbors: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function getDefaultRetrievalOptions(): RetrievalOptions {
+  return {
+    numResults: envNumber("RETRIEVAL_NUM_RESULTS", 15),
+    vectorWeight: envNumber("HYBRID_VECTOR_WEIGHT", 1),
+    keywordWeight: envNumber("HYBRID_KEYWORD_WEIGHT", 1),
+    rrfK: envNumber("HYBRID_RRF_K", 60),
+    reranker: createReranker(),
+    rerankTopN: envNumber("RERANK_TOP_N", 30),
+    rerankTopK: envNumber("RERANK_TOP_K", 10),
+    expandNeighbors: envNumber("EXPAND_NEIGHBORS", 0),
+  };
 }
 
 export class RetrievalService {
-  private vectorizeService: VectorizeService;
+  private vectorStore: VectorStore;
+  private options: RetrievalOptions;
+
+  constructor(
+    vectorStore: VectorStore = createVectorStore(),
+    options: Partial<RetrievalOptions> = {}
+  ) {
+    this.vectorStore = vectorStore;
+    this.options = { ...getDefaultRetrievalOptions(), ...options };
+  }
+
+  /**
+   * Retrieve and pack context for a query. Passing several queries (e.g. a
+   * rewritten query and its alternative phrasings) retrieves for each and
+   * fuses the results. Failures are logged and yield an empty context
+   * unless `throwOnError` is set.
+   */
+  async retrieveContext(
+    query: string | string[],
+    {
+      model,
+      tokenBudget,
+      firstCitation,
+      abortSignal,
+      throwOnError = false,
+    }: ContextOptions = {}
+  ): Promise<RetrievalResult> {
+    const budget = tokenBudget ?? getContextTokenBudget(model);
+    const queries = (Array.isArray(query) ? query : [query]).filter(Boolean);
+    return withSpan(
+      "retrieval",
+      async (span) => {
+        try {
+          const documents =
+            queries.length > 1
+              ? await this.retrieveDocumentsForQueries(queries, { abortSignal })
+              : await this.retrieveDocuments(queries[0] ?? "", { abortSignal });
+          const packed = await withSpan("retrieval.format", (formatSpan) => {
+            const packed = packDocumentsForContext(documents, {
+              tokenBudget: budget,
+              firstCitation,
+            });
+            formatSpan.setAttributes({
+              "retrieval.documents.included": packed.included.length,
+              "retrieval.documents.omitted": packed.omitted.length,
+              "retrieval.context_tokens": packed.tokenCount,
+            });
+            return packed;
+          });
+
+          span.setAttribute("retrieval.documents", documents.length);
+          return {
+            contextDocuments: packed.contextDocuments,
+            sources: convertDocumentsToChatSources(packed.included),
+            omittedSources: convertDocumentsToChatSources(packed.omitted),
+            tokenCount: packed.tokenCount,
+            tokenBudget: budget,
+          };
+        } catch (error) {
+          if (abortSignal?.aborted) throw error;
+          logger.error("Retrieval failed", { error });
+          span.recordException(error);
+          if (throwOnError) {
+            throw error instanceof RetrievalError
+              ? error
+              : new RetrievalError("Document retrieval failed", { cause: error });
+          }
+          return {
+            contextDocuments: "Unable to retrieve relevant documents at this time.",
+            sources: [],
+            omittedSources: [],
+            tokenCount: 0,
+            tokenBudget: budget,
+          };
+        }
+      },
+      {
+        attributes: {
+          "retrieval.queries": queries,
+          "retrieval.token_budget": budget,
+        },
+      }
+    );
+  }
 
-  constructor() {
-    this.vectorizeService = new VectorizeService();
+  /**
+   * Multi-query retrieval: run the full pipeline for every query and merge
+   * the result lists with reciprocal rank fusion.
+   */
+  async retrieveDocumentsForQueries(
+    queries: string[],
+    options: SearchOptions = {}
+  ): Promise<RetrievedDocument[]> {
+    const lists = await Promise.all(
+      queries.map((query) => this.retrieveDocuments(query, options))
+    );
+    const limit = Math.max(...lists.map((list) => list.length));
+
+    const fused = reciprocalRankFusion(
+      lists.map((items, index) => ({ name: String(index), weight: 1, items })),
+      (doc) => doc.id,
+      this.options.rrfK
+    );
+
+    return fused.slice(0, limit).map(({ item, score }) => {
+      const retrievers = new Set<RetrieverName>();
+      for (const list of lists) {
+        list
+          .find((doc) => doc.id === item.id)
+          ?.retrievers?.forEach((retriever) => retrievers.add(retriever));
+      }
+      return { ...item, retrievers: [...retrievers], fusedScore: score };
+    });
+  }
+
+  /**
+   * First-stage hybrid retrieval, optional reranking of the top N
+   * candidates (keeping the best K) and optional neighbour expansion.
+   */
+  async retrieveDocuments(
+    query: string,
+    { abortSignal }: SearchOptions = {}
+  ): Promise<RetrievedDocument[]> {
+    return withSpan(
+      "retrieval.search",
+      async (span) => {
+        const documents = await this.rankDocuments(query, abortSignal);
+        span.setAttribute("retrieval.documents", documents.length);
+        if (this.options.expandNeighbors <= 0) return documents;
+        try {
+          return await withSpan("retrieval.expand", () =>
+            expandNeighbors(documents, this.vectorStore, this.options.expandNeighbors, {
+              abortSignal,
+            })
+          );
+        } catch (error) {
+          if (abortSignal?.aborted) throw error;
+          logger.warn("Neighbour expansion failed", { error });
+          return documents;
+        }
+      },
+      { attributes: { "retrieval.query": query } }
+    );
   }
 
-  async retrieveContext(query: string): Promise<RetrievalResult> {
+  private async rankDocuments(
+    query: string,
+    abortSignal?: AbortSignal
+  ): Promise<RetrievedDocument[]> {
+    const { numResults, reranker, rerankTopN, rerankTopK } = this.options;
+    if (!reranker) {
+      return this.hybridSearch(query, numResults, abortSignal);
+    }
+
+    const candidates = await this.hybridSearch(query, rerankTopN, abortSignal);
     try {
-      const documents = await this.vectorizeService.retrieveDocuments(query, 15);
-      const contextDocuments =
-        this.vectorizeService.formatDocumentsForContext(documents);
-      const sources =
-        this.vectorizeService.convertDocumentsToChatSources(documents);
-
-      return {
-        contextDocuments,
-        sources,
-      };
+      const reranked = await withSpan(
+        "retrieval.rerank",
+        () => reranker.rerank(query, candidates, { abortSignal }),
+        {
+          attributes: {
+            "rerank.reranker": reranker.name,
+            "rerank.candidates": candidates.length,
+          },
+        }
+      );
+      return reranked.slice(0, rerankTopK);
     } catch (error) {
-      console.error("Retrieval failed:", error);
-      return {
-        contextDocuments: "Unable to retrieve relevant documents at this time.",
-        sources: [],
-      };
+      if (abortSignal?.aborted) throw error;
+      logger.warn("Reranking failed", { reranker: reranker.name, error });
+      return candidates.slice(0, rerankTopK);
     }
   }
 
-  async searchDocuments(query: string): Promise<string> {
-    const result = await this.retrieveContext(query);
+  /**
+   * Hybrid retrieval: run vector and BM25 keyword search side by side and
+   * merge the two rankings with weighted reciprocal rank fusion.
+   *
+   * Only stores with corpus-wide keyword search (the local store) get true
+   * hybrid retrieval. On Vectorize the keyword side is a BM25 rerank of the
+   * vector candidates: it can promote exact-token matches among them but
+   * never adds a document vector search did not return.
+   */
+  private async hybridSearch(
+    query: string,
+    numResults: number,
+    abortSignal?: AbortSignal
+  ): Promise<RetrievedDocument[]> {
+    const { vectorWeight, keywordWeight, rrfK } = this.options;
+    const useVector = vectorWeight > 0;
+    const useKeyword = keywordWeight > 0;
+    // Retrieve deeper than we return so fusion has candidates to promote
+    const candidateCount = useVector && useKeyword ? numResults * 2 : numResults;
+
+    const canSearchCorpus = typeof this.vectorStore.keywordSearch === "function";
+    // Without corpus-wide keyword search, BM25 only re-ranks the vector
+    // candidates, so vector search is still needed to produce them
+    const needVectorCandidates = useVector || (useKeyword && !canSearchCorpus);
+
+    const [vectorDocuments, corpusKeywordDocuments] = await Promise.all([
+      needVectorCandidates
+        ? withSpan(
+            "retrieval.vector_search",
+            async (span) => {
+              const documents = await this.vectorStore.retrieveDocuments(
+                query,
+                candidateCount,
+                { abortSignal }
+              );
+              span.setAttribute("retrieval.documents", documents.length);
+              return documents;
+            },
+            { attributes: { "retrieval.num_results": candidateCount } }
+          )
+        : Promise.resolve([]),
+      useKeyword && canSearchCorpus
+        ? withSpan(
+            "retrieval.keyword_search",
+            async (span) => {
+              const documents = await this.vectorStore.keywordSearch!(
+                query,
+                candidateCount,
+                { abortSignal }
+              );
+              span.setAttribute("retrieval.documents", documents.length);
+              return documents;
+            },
+            { attributes: { "retrieval.num_results": candidateCount } }
+          )
+        : Promise.resolve([]),
+    ]);
+
+    let keywordDocuments: RetrievedDocument[] = corpusKeywordDocuments;
+    if (useKeyword && !canSearchCorpus) {
+      keywordDocuments = new Bm25Index(vectorDocuments, (doc) => doc.text)
+        .search(query, candidateCount)
+        .map(({ item, score }) => ({ ...item, keywordScore: score }));
+    }
+
+    const fused = reciprocalRankFusion<RetrievedDocument, RetrieverName>(
+      [
+        { name: "vector", weight: vectorWeight, items: vectorDocuments },
+        { name: "keyword", weight: keywordWeight, items: keywordDocuments },
+      ],
+      (doc) => doc.id,
+      rrfK
+    );
+
+    const keywordScores = new Map(
+      keywordDocuments.map((doc) => [doc.id, doc.keywordScore])
+    );
+
+    return fused.slice(0, numResults).map(({ item, score, foundBy }) => ({
+      ...item,
+      keywordScore: keywordScores.get(item.id),
+      retrievers: foundBy,
+      fusedScore: score,
+    }));
+  }
+
+  async searchDocuments(
+    query: string,
+    options: ContextOptions = {}
+  ): Promise<string> {
+    const result = await this.retrieveContext(query, options);
     return result.contextDocuments || "No relevant documents found.";
   }
 }
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { CONVERSATION_KINDS, isConversationKind } from "@/lib/conversation-store";
+
+// Request schemas for the API routes. Objects are not strict: clients such
+// as useChat send extra fields (message ids, parts, ...) that are passed on.
+
+const conversationKindSchema = z
+  .string()
+  .refine(isConversationKind, {
+    message: `Must be one of ${CONVERSATION_KINDS.join(", ")}`,
+  });
+
+const conversationIdSchema = z.string().min(1).optional();
+
+// useChat messages; extra fields such as toolInvocations are kept
+const uiMessageSchema = z
+  .object({
+    role: z.enum(["system", "user", "assistant"]),
+    content: z.string(),
+  })
+  .passthrough();
+
+export const chatRequestSchema = z.object({
+  messages: z.array(uiMessageSchema).min(1, "At least one message is required"),
+  conversationId: conversationIdSchema,
+});
+
+export const agentRequestSchema = z.object({
+  messages: z
+    .array(
+      z
+        .object({
+          role: z.enum(["user", "assistant"]),
+          content: z.string(),
+        })
+        .passthrough()
+    )
+    .min(1, "At least one message is required"),
+  conversationId: conversationIdSchema,
+});
+
+export const agentsSdkRequestSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+      })
+    )
+    .min(1, "At least one message is required")
+    .refine((messages) => messages[messages.length - 1].role === "user", {
+      message: "The last message must be from the user",
+    }),
+  conversationId: conversationIdSchema,
+});
+
+export const listConversationsQuerySchema = z.object({
+  kind: conversationKindSchema.optional(),
+});
+
+export const createConversationSchema = z.object({
+  kind: conversationKindSchema.default("chat"),
+  title: z.string().optional(),
+});
+
+export const renameConversationSchema = z.object({
+  title: z.string().trim().min(1, "Title must not be empty"),
+});
+
+export const feedbackSchema = z.object({
+  rating: z.enum(["up", "down"]),
+  comment: z
+    .string()
+    .max(2000)
+    .optional()
+    .transform((comment) => comment?.trim() || undefined),
+  // The rated answer is looked up here; its question, sources, prompt and
+  // model are taken from the saved conversation, not from the client
+  conversationId: z.string().min(1),
+  messageId: z.string().min(1),
+});
+
+export const feedbackExportQuerySchema = z.object({
+  format: z.enum(["jsonl", "csv"]).default("jsonl"),
+  rating: z.enum(["up", "down"]).optional(),
+  since: z.coerce.date().optional(),
+});
+
+export const usageQuerySchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  keyId: z.string().min(1).optional(),
+});
+
+export const advisoryCountrySchema = z
+  .string()
+  .trim()
+  .min(2, "Country must be at least 2 characters")
+  .max(100);
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date as YYYY-MM-DD");
+
+// A leg of a trip for the agent's planTrip tool. Kept to what JSON Schema can
+// express, since the model fills it in; lib/itinerary.ts reports legs whose
+// dates do not add up.
+export const tripLegSchema = z.object({
+  destination: z.string().trim().min(2).max(100).describe("Country or destination"),
+  city: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("City staying in, if the traveler named one"),
+  startDate: isoDateSchema.describe("Arrival date, YYYY-MM-DD"),
+  endDate: isoDateSchema.describe("Departure date, YYYY-MM-DD"),
+});
+
+// Form fields arrive as strings; blank fields count as not set
+const optionalFormInt = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.coerce.number().int().optional()
+);
+const optionalFormString = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.string().optional()
+);
+
+export const ingestFieldsSchema = z.object({
+  source: optionalFormString,
+  displayName: optionalFormString,
+  chunkSize: optionalFormInt,
+  chunkOverlap: optionalFormInt,
+});
+
+export const sessionSchema = z.object({
+  apiKey: z.string().trim().min(1, "API key is required"),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  // Per-key overrides of the default rate limit and quotas; 0 disables one
+  limits: z
+    .object({
+      requestsPerMinute: z.number().min(0).optional(),
+      burst: z.number().int().min(1).optional(),
+      dailyRequests: z.number().int().min(0).optional(),
+      dailyTokens: z.number().int().min(0).optional(),
+    })
+    .optional(),
+});
@@ -0,0 +1,31 @@
+export interface StreamOutcome {
+  /** Full answer text */
+  text: string;
+  /** Model that actually answered (differs from the first in a fallback chain) */
+  modelId: string;
+  /** Id the answer was saved under, when it belongs to a conversation */
+  messageId?: string;
+}
+
+/**
+ * Tracks how a streamText call ended, for work that runs after the answer
+ * (answer metadata, grounding check). The result's own promises (`text`,
+ * `response`, `steps`) never settle when the stream fails, so awaiting them
+ * would keep the response open; this resolves to null instead.
+ *
+ * Call `finish` from streamText's `onFinish` and `fail` from its `onError`.
+ * Pass the request's abort signal too: an aborted stream calls neither.
+ */
+export function createStreamOutcome(abortSignal?: AbortSignal) {
+  let settle!: (outcome: StreamOutcome | null) => void;
+  const promise = new Promise<StreamOutcome | null>((resolve) => {
+    settle = resolve;
+  });
+  if (abortSignal?.aborted) settle(null);
+  abortSignal?.addEventListener("abort", () => settle(null), { once: true });
+  return {
+    promise,
+    finish: (outcome: StreamOutcome) => settle(outcome),
+    fail: () => settle(null),
+  };
+}
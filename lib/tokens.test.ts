@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens, truncateToTokens } from "@/lib/tokens";
+
+describe("estimateTokens", () => {
+  it("rounds four characters per token up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("truncateToTokens", () => {
+  it("returns text that fits unchanged", () => {
+    expect(truncateToTokens("Short text.", 10)).toBe("Short text.");
+  });
+
+  it("cuts at the last sentence that fits", () => {
+    const text = "First sentence is here. Second sentence is longer than the budget allows.";
+    expect(truncateToTokens(text, 8)).toBe("First sentence is here. …");
+  });
+
+  it("falls back to a word boundary", () => {
+    const text = "one two three four five six seven eight nine ten";
+    const truncated = truncateToTokens(text, 5);
+    expect(truncated).toBe("one two three …");
+    expect(estimateTokens(truncated!)).toBeLessThanOrEqual(5);
+  });
+
+  it("returns null when nothing useful fits", () => {
+    expect(truncateToTokens("unbreakablewordthatislong", 2)).toBeNull();
+    expect(truncateToTokens("some text here", 0)).toBeNull();
+  });
+});
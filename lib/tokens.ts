@@ -0,0 +1,59 @@
+// Token estimation and per-model context budgets
+
+/**
+ * Context token budgets for retrieved documents, per model. These are well
+ * under each model's context window to leave room for the system prompt,
+ * conversation history and the answer, and to keep per-request cost bounded.
+ */
+const CONTEXT_TOKEN_BUDGETS: Record<string, number> = {
+  "gpt-4o-mini": 6000,
+  "gpt-4o": 8000,
+};
+
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 4000;
+
+/**
+ * Context budget for a model. CONTEXT_TOKEN_BUDGET overrides the table for
+ * every model.
+ */
+export function getContextTokenBudget(model?: string): number {
+  const override = Number(process.env.CONTEXT_TOKEN_BUDGET);
+  if (Number.isFinite(override) && override > 0) return override;
+  return (model && CONTEXT_TOKEN_BUDGETS[model]) || DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+/**
+ * Rough token count for English prose (~4 characters per token for OpenAI
+ * tokenizers). Deliberately rounds up so packing errs on the safe side.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut text down to roughly `maxTokens`, preferring to end on a sentence and
+ * falling back to a word boundary. Returns null when nothing useful fits.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string | null {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const maxChars = maxTokens * 4 - 2; // Leave room for the ellipsis
+  if (maxChars <= 0) return null;
+  const slice = text.slice(0, maxChars);
+
+  const sentenceEnd = Math.max(
+    slice.lastIndexOf(". "),
+    slice.lastIndexOf("? "),
+    slice.lastIndexOf("! ")
+  );
+  // Only cut at a sentence if it keeps at least half of the allowance
+  if (sentenceEnd > maxChars / 2) {
+    return slice.slice(0, sentenceEnd + 1) + " …";
+  }
+
+  const wordEnd = slice.lastIndexOf(" ");
+  if (wordEnd > 0) {
+    return slice.slice(0, wordEnd) + " …";
+  }
+  return null;
+}
@@ -0,0 +1,158 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { AttributeValue, SpanRecord } from "@/lib/tracing";
+
+/** Receives every finished span. */
+export interface SpanExporter {
+  export(span: SpanRecord): void;
+}
+
+export type SpanExporterName = "none" | "console" | "file";
+
+const DEFAULT_TRACE_FILE_PATH = ".data/traces.jsonl";
+const DEFAULT_SERVICE_NAME = "goaware";
+
+/** Drops spans; the default, so tracing costs nothing unless enabled. */
+export class NoopSpanExporter implements SpanExporter {
+  export(): void {}
+}
+
+/** Prints each span as a line of JSON on stdout. */
+export class ConsoleSpanExporter implements SpanExporter {
+  export(span: SpanRecord): void {
+    console.log(JSON.stringify({ type: "span", ...span }));
+  }
+}
+
+/**
+ * Appends each span to a file as a line of OTLP/JSON (an OpenTelemetry
+ * ExportTraceServiceRequest), the format read by the OpenTelemetry
+ * Collector's `otlpjsonfile` receiver.
+ */
+export class FileSpanExporter implements SpanExporter {
+  readonly filePath: string;
+  private serviceName: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    filePath: string = process.env.TRACE_FILE_PATH || DEFAULT_TRACE_FILE_PATH,
+    serviceName: string = getServiceName()
+  ) {
+    this.filePath = path.resolve(filePath);
+    this.serviceName = serviceName;
+  }
+
+  export(span: SpanRecord): void {
+    const line = `${JSON.stringify(toOtlpJson(span, this.serviceName))}\n`;
+    // Serialise appends so lines from concurrent requests never interleave
+    this.queue = this.queue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line);
+      })
+      .catch((error) => {
+        // Plain console: the structured logger depends on the tracing modules
+        console.error("Failed to write span to trace file:", error);
+      });
+  }
+}
+
+export function getSpanExporterName(): SpanExporterName {
+  const name = (process.env.TRACE_EXPORTER || "none").toLowerCase();
+  if (name !== "none" && name !== "console" && name !== "file") {
+    throw new Error(
+      `Unknown TRACE_EXPORTER "${name}". Expected "none", "console" or "file".`
+    );
+  }
+  return name;
+}
+
+/**
+ * Create the exporter selected by TRACE_EXPORTER. Both "console" and "file"
+ * work offline; the file can be shipped to any OTLP backend later.
+ */
+export function createSpanExporter(): SpanExporter {
+  switch (getSpanExporterName()) {
+    case "console":
+      return new ConsoleSpanExporter();
+    case "file":
+      return new FileSpanExporter();
+    case "none":
+    default:
+      return new NoopSpanExporter();
+  }
+}
+
+// Kept on globalThis so every route bundle and hot reload shares one exporter
+const globalForTracing = globalThis as { spanExporter?: SpanExporter };
+
+export function getSpanExporter(): SpanExporter {
+  globalForTracing.spanExporter ??= createSpanExporter();
+  return globalForTracing.spanExporter;
+}
+
+function getServiceName(): string {
+  return process.env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME;
+}
+
+const OTLP_SPAN_KIND = { internal: 1, server: 2, client: 3 } as const;
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const;
+
+function toOtlpJson(span: SpanRecord, serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOtlpAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: DEFAULT_SERVICE_NAME },
+            spans: [
+              {
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: span.startTimeUnixNano,
+                endTimeUnixNano: span.endTimeUnixNano,
+                attributes: toOtlpAttributes(span.attributes),
+                events: span.events.map((event) => ({
+                  name: event.name,
+                  timeUnixNano: event.timeUnixNano,
+                  attributes: toOtlpAttributes(event.attributes),
+                })),
+                status: {
+                  code: OTLP_STATUS_CODE[span.status.code],
+                  message: span.status.message,
+                },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: toOtlpValue(value),
+  }));
+}
+
+function toOtlpValue(value: AttributeValue | string | number): object {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((item) => toOtlpValue(item)) } };
+  }
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    // OTLP/JSON encodes 64-bit integers as strings
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
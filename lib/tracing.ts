@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { onResponseEnd } from "@/lib/response-end";
+import { getSpanExporter } from "@/lib/trace-exporters";
+
+export type AttributeValue = string | number | boolean | string[] | number[];
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+// Same values as OpenTelemetry's SpanKind and SpanStatusCode
+export type SpanKind = "internal" | "server" | "client";
+export type SpanStatusCode = "unset" | "ok" | "error";
+
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+/**
+ * A finished span. Ids and timestamps follow the OpenTelemetry data model
+ * (hex trace and span ids, nanosecond epoch times) so exported spans can be
+ * loaded into OTel tooling.
+ */
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  durationMs: number;
+  attributes: Record<string, AttributeValue>;
+  status: { code: SpanStatusCode; message?: string };
+  events: SpanEvent[];
+}
+
+/** Identifies a span, e.g. a remote parent from a `traceparent` header. */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /** Parent span; defaults to the active span. null starts a new trace */
+  parent?: SpanContext | null;
+}
+
+export class Span implements SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  private kind: SpanKind;
+  private startTime: bigint;
+  private attributes: Record<string, AttributeValue> = {};
+  private status: SpanRecord["status"] = { code: "unset" };
+  private events: SpanEvent[] = [];
+  private ended = false;
+
+  constructor(name: string, { kind = "internal", attributes, parent }: SpanOptions = {}) {
+    const parentContext = parent === undefined ? getActiveSpan() : parent;
+    this.name = name;
+    this.kind = kind;
+    this.traceId = parentContext?.traceId ?? randomHex(16);
+    this.spanId = randomHex(8);
+    this.parentSpanId = parentContext?.spanId;
+    this.startTime = nowUnixNano();
+    if (attributes) this.setAttributes(attributes);
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: Attributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: Attributes = {}): this {
+    const defined: Record<string, AttributeValue> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) defined[key] = value;
+    }
+    this.events.push({
+      name,
+      timeUnixNano: nowUnixNano().toString(),
+      attributes: defined,
+    });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = message ? { code, message } : { code };
+    return this;
+  }
+
+  /** Add an "exception" event (OTel semantic conventions) and mark the span failed. */
+  recordException(error: unknown): this {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.addEvent("exception", {
+      "exception.type": err.name,
+      "exception.message": err.message,
+      "exception.stacktrace": err.stack,
+    });
+    return this.setStatus("error", err.message);
+  }
+
+  /** Finish the span and hand it to the exporter. Later calls are ignored. */
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    const endTime = nowUnixNano();
+    getSpanExporter().export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: endTime.toString(),
+      durationMs: Number(endTime - this.startTime) / 1e6,
+      attributes: this.attributes,
+      status: this.status,
+      events: this.events,
+    });
+  }
+}
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/** The span of the code currently running, if any. */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+export function startSpan(name: string, options?: SpanOptions): Span {
+  return new Span(name, options);
+}
+
+/** Run `fn` with `span` as the active span, without ending it. */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return activeSpan.run(span, fn);
+}
+
+/**
+ * Run `fn` in a new child span that ends when it settles. A thrown error is
+ * recorded on the span and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T> | T,
+  options?: SpanOptions
+): Promise<T> {
+  const span = startSpan(name, options);
+  try {
+    return await runInSpan(span, () => fn(span));
+  } catch (error) {
+    span.recordException(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Handle a request inside a root "server" span. The span continues a trace
+ * from an incoming W3C `traceparent` header, and ends once the response body
+ * has been sent (or the client disconnects), so streamed answers are timed
+ * to their last token.
+ */
+export async function traceRequest(
+  req: Request,
+  name: string,
+  attributes: Attributes,
+  handler: (span: Span) => Promise<Response>
+): Promise<Response> {
+  const span = startSpan(name, {
+    kind: "server",
+    parent: parseTraceparent(req.headers.get("traceparent")),
+    attributes: {
+      "http.request.method": req.method,
+      "url.path": new URL(req.url).pathname,
+      ...attributes,
+    },
+  });
+
+  let response: Response;
+  try {
+    response = await runInSpan(span, () => handler(span));
+  } catch (error) {
+    span.recordException(error);
+    span.end();
+    throw error;
+  }
+
+  span.setAttribute("http.response.status_code", response.status);
+  if (response.status >= 500) span.setStatus("error");
+  return onResponseEnd(response, (end) => {
+    if (end.type === "cancelled") span.addEvent("client_disconnected");
+    if (end.type === "error") span.recordException(end.error);
+    span.end();
+  });
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/** Parent span from a W3C `traceparent` header, or null if absent or invalid. */
+export function parseTraceparent(header: string | null): SpanContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+// performance.now() gives sub-millisecond precision relative to timeOrigin
+function nowUnixNano(): bigint {
+  const ms = performance.timeOrigin + performance.now();
+  return BigInt(Math.round(ms * 1e6));
+}
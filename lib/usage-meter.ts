@@ -0,0 +1,149 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import {
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import { logger } from "@/lib/logger";
+import { estimateCost } from "@/lib/pricing";
+import { onResponseEnd } from "@/lib/response-end";
+import { createUsageStore } from "@/lib/usage-store";
+import type { Principal } from "@/types/auth";
+import type {
+  MeteredService,
+  ModelCallUsage,
+  UsageRecord,
+  UsageRoute,
+} from "@/types/usage";
+
+/**
+ * Collects the model tokens and external service calls of one request.
+ * Model calls are added by the metering middleware on every model from
+ * getModel(), so query rewriting, memory summaries, agent steps and
+ * grounding checks are all counted.
+ */
+export class UsageMeter {
+  readonly route: UsageRoute;
+  readonly requestId: string;
+  private principal?: Principal;
+  private modelCalls: ModelCallUsage[] = [];
+  private serviceCalls: Record<MeteredService, number> = {
+    vectorize: 0,
+    weather: 0,
+  };
+
+  constructor(route: UsageRoute, requestId: string) {
+    this.route = route;
+    this.requestId = requestId;
+  }
+
+  setPrincipal(principal: Principal): void {
+    this.principal = principal;
+  }
+
+  addModelCall(
+    provider: string,
+    modelId: string,
+    { promptTokens, completionTokens }: { promptTokens: number; completionTokens: number }
+  ): void {
+    // Providers that do not report usage give NaN
+    const prompt = Number.isFinite(promptTokens) ? promptTokens : 0;
+    const completion = Number.isFinite(completionTokens) ? completionTokens : 0;
+    this.modelCalls.push({
+      model: `${provider}:${modelId}`,
+      promptTokens: prompt,
+      completionTokens: completion,
+      costUsd: estimateCost(provider, modelId, prompt, completion),
+    });
+  }
+
+  countServiceCall(service: MeteredService): void {
+    this.serviceCalls[service] += 1;
+  }
+
+  /** The request's usage, or null for requests refused before authorization. */
+  toRecord(): UsageRecord | null {
+    if (!this.principal) return null;
+    const sum = (pick: (call: ModelCallUsage) => number) =>
+      this.modelCalls.reduce((total, call) => total + pick(call), 0);
+    return {
+      id: randomUUID(),
+      requestId: this.requestId,
+      createdAt: new Date().toISOString(),
+      route: this.route,
+      principalId: this.principal.id,
+      keyId: this.principal.keyId,
+      // Copied: a cancelled stream can still report usage after the record is saved
+      modelCalls: [...this.modelCalls],
+      promptTokens: sum((call) => call.promptTokens),
+      completionTokens: sum((call) => call.completionTokens),
+      costUsd: sum((call) => call.costUsd ?? 0),
+      serviceCalls: { ...this.serviceCalls },
+    };
+  }
+}
+
+const activeMeter = new AsyncLocalStorage<UsageMeter>();
+
+/** The meter of the request currently being handled, if it is metered. */
+export function getUsageMeter(): UsageMeter | undefined {
+  return activeMeter.getStore();
+}
+
+export function countServiceCall(service: MeteredService): void {
+  getUsageMeter()?.countServiceCall(service);
+}
+
+/**
+ * Handle a request with usage metering, and save its usage record once the
+ * response has been sent (after the last streamed token), so tool loops and
+ * post-answer checks are included.
+ */
+export async function meterUsage(
+  route: UsageRoute,
+  requestId: string,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const meter = new UsageMeter(route, requestId);
+  const response = await activeMeter.run(meter, handler);
+  return onResponseEnd(response, () => {
+    const record = meter.toRecord();
+    if (!record) return;
+    createUsageStore()
+      .add(record)
+      .catch((error) => logger.error("Failed to save usage record", { error }));
+  });
+}
+
+const meteringMiddleware: LanguageModelV1Middleware = {
+  wrapGenerate: async ({ doGenerate, model }) => {
+    const result = await doGenerate();
+    getUsageMeter()?.addModelCall(model.provider, model.modelId, result.usage);
+    return result;
+  },
+
+  wrapStream: async ({ doStream, model }) => {
+    // Look the meter up now: stream callbacks may run outside the request
+    const meter = getUsageMeter();
+    const result = await doStream();
+    if (!meter) return result;
+    const stream = result.stream.pipeThrough(
+      new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          if (part.type === "finish") {
+            meter.addModelCall(model.provider, model.modelId, part.usage);
+          }
+          controller.enqueue(part);
+        },
+      })
+    );
+    return { ...result, stream };
+  },
+};
+
+/** Wrap a model so the tokens of each call are added to the request's meter. */
+export function withUsageMetering(model: LanguageModelV1): LanguageModelV1 {
+  return wrapLanguageModel({ model, middleware: meteringMiddleware });
+}
@@ -0,0 +1,142 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "@/lib/logger";
+import { utcDay } from "@/lib/rate-limit";
+import type {
+  MeteredService,
+  UsageRecord,
+  UsageSummary,
+  UsageSummaryGroup,
+} from "@/types/usage";
+
+const DEFAULT_STORE_PATH = ".data/usage.jsonl";
+
+export interface UsageFilter {
+  /** Only requests made at or after this time */
+  since?: Date;
+  /** Only requests made before this time */
+  until?: Date;
+  principalId?: string;
+  keyId?: string;
+}
+
+/** Storage for per-request usage records. */
+export interface UsageStore {
+  add(record: UsageRecord): Promise<void>;
+  list(filter?: UsageFilter): Promise<UsageRecord[]>;
+}
+
+/**
+ * Append-only JSON Lines usage log, one record per request.
+ */
+export class JsonlUsageStore implements UsageStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = path.resolve(
+      filePath || process.env.USAGE_STORE_PATH || DEFAULT_STORE_PATH
+    );
+  }
+
+  async add(record: UsageRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+  }
+
+  async list({
+    since,
+    until,
+    principalId,
+    keyId,
+  }: UsageFilter = {}): Promise<UsageRecord[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        logger.warn("Skipping malformed usage line", { line: line.slice(0, 200) });
+      }
+    }
+
+    return records.filter((record) => {
+      const createdAt = new Date(record.createdAt);
+      return (
+        (!since || createdAt >= since) &&
+        (!until || createdAt < until) &&
+        (!principalId || record.principalId === principalId) &&
+        (!keyId || record.keyId === keyId)
+      );
+    });
+  }
+}
+
+export function createUsageStore(): UsageStore {
+  return new JsonlUsageStore();
+}
+
+/**
+ * Total usage per UTC day, route and API key, most recent day first, plus
+ * overall totals.
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const groups = new Map<string, UsageSummaryGroup>();
+  const totals = emptyTotals();
+
+  for (const record of records) {
+    const day = utcDay(new Date(record.createdAt));
+    const keyId = record.keyId ?? null;
+    const groupKey = JSON.stringify([day, record.route, keyId]);
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { day, route: record.route, keyId, ...emptyTotals() };
+      groups.set(groupKey, group);
+    }
+    addRecord(group, record);
+    addRecord(totals, record);
+  }
+
+  return {
+    groups: [...groups.values()].sort(
+      (a, b) =>
+        b.day.localeCompare(a.day) ||
+        a.route.localeCompare(b.route) ||
+        (a.keyId ?? "").localeCompare(b.keyId ?? "")
+    ),
+    totals,
+  };
+}
+
+function emptyTotals(): UsageSummary["totals"] {
+  return {
+    requests: 0,
+    modelCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    unpricedModelCalls: 0,
+    serviceCalls: { vectorize: 0, weather: 0 },
+  };
+}
+
+function addRecord(totals: UsageSummary["totals"], record: UsageRecord): void {
+  totals.requests += 1;
+  totals.modelCalls += record.modelCalls.length;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.costUsd += record.costUsd;
+  totals.unpricedModelCalls += record.modelCalls.filter(
+    (call) => call.costUsd === null
+  ).length;
+  for (const [service, count] of Object.entries(record.serviceCalls)) {
+    totals.serviceCalls[service as MeteredService] += count;
+  }
+}
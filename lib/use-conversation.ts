@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Message } from "@ai-sdk/react";
+import { toJsonAnnotation } from "@/lib/annotations";
+import type {
+  ChatMessageWithSources,
+  Conversation,
+  ConversationKind,
+  SourcesAnnotation,
+} from "@/types/chat";
+
+/**
+ * Keeps the current conversation of a chat interface across page reloads.
+ * The conversation id lives in localStorage and the messages on the server
+ * (/api/conversations); a conversation is only created once the first
+ * message is sent.
+ */
+export function useConversation(kind: ConversationKind) {
+  const storageKey = `goaware:conversation:${kind}`;
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // Conversation restored on page load, if any
+  const [restored, setRestored] = useState<Conversation | null>(null);
+
+  useEffect(() => {
+    const savedId = localStorage.getItem(storageKey);
+    if (!savedId) return;
+
+    let cancelled = false;
+    fetch(`/api/conversations/${encodeURIComponent(savedId)}`)
+      .then(async (response) => {
+        if (cancelled) return;
+        if (!response.ok) {
+          // Deleted on the server; start fresh
+          localStorage.removeItem(storageKey);
+          return;
+        }
+        const { conversation } = await response.json();
+        setConversationId(conversation.id);
+        setRestored(conversation);
+      })
+      .catch((error) => console.error("Failed to restore conversation:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  /**
+   * Id of the current conversation, creating one if needed. Resolves to
+   * undefined when the conversation could not be created, in which case the
+   * chat still works but is not saved.
+   */
+  const ensureConversation = useCallback(async (): Promise<string | undefined> => {
+    if (conversationId) return conversationId;
+    try {
+      const response = await fetch("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { conversation } = await response.json();
+      localStorage.setItem(storageKey, conversation.id);
+      setConversationId(conversation.id);
+      return conversation.id;
+    } catch (error) {
+      console.error("Failed to create conversation:", error);
+      return undefined;
+    }
+  }, [conversationId, kind, storageKey]);
+
+  const startNewConversation = useCallback(() => {
+    localStorage.removeItem(storageKey);
+    setConversationId(null);
+    setRestored(null);
+  }, [storageKey]);
+
+  return { conversationId, restored, ensureConversation, startNewConversation };
+}
+
+/**
+ * Convert stored messages to useChat messages, with sources attached as the
+ * annotation /api/chat streams and agent tool results as completed tool
+ * invocations.
+ */
+export function toUiMessages(messages: ChatMessageWithSources[]): Message[] {
+  return messages.map((message) => {
+    const annotation: SourcesAnnotation | undefined = message.sources?.length
+      ? { type: "sources", sources: message.sources, omittedSources: [] }
+      : undefined;
+    return {
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      createdAt: new Date(message.createdAt),
+      ...(annotation ? { annotations: [toJsonAnnotation(annotation)] } : {}),
+      ...(message.toolInvocations?.length
+        ? {
+            toolInvocations: message.toolInvocations.map((invocation) => ({
+              state: "result" as const,
+              ...invocation,
+            })),
+          }
+        : {}),
+    };
+  });
+}
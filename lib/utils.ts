@@ -4,3 +4,20 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Find `needle` in `text` ignoring case and differences in whitespace.
+ */
+export function findTextSpan(
+  text: string,
+  needle: string
+): { start: number; end: number } | null {
+  const words = needle.trim().split(/\s+/).filter(Boolean)
+  if (!words.length) return null
+  const pattern = new RegExp(
+    words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+"),
+    "i"
+  )
+  const match = pattern.exec(text)
+  return match ? { start: match.index, end: match.index + match[0].length } : null
+}
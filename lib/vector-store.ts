@@ -0,0 +1,108 @@
+import { VectorizeService } from "@/lib/vectorize";
+import { LocalVectorStore } from "@/lib/local-vector-store";
+import type {
+  RetrievedDocument,
+  VectorizeDocument,
+} from "@/types/vectorize";
+
+/**
+ * Backend-agnostic interface for semantic document retrieval.
+ * Every adapter returns documents in the VectorizeDocument shape so the
+ * formatting and source conversion code works regardless of the backend.
+ */
+export interface VectorStore {
+  retrieveDocuments(
+    question: string,
+    numResults?: number,
+    options?: { abortSignal?: AbortSignal }
+  ): Promise<VectorizeDocument[]>;
+  /**
+   * Optional BM25 keyword search over the whole corpus. Stores that cannot
+   * enumerate their documents (e.g. Vectorize) leave this out and the
+   * retrieval service falls back to keyword-ranking the vector candidates,
+   * which reorders them but cannot find documents vector search missed.
+   */
+  keywordSearch?(
+    query: string,
+    numResults?: number,
+    options?: { abortSignal?: AbortSignal }
+  ): Promise<RetrievedDocument[]>;
+  /**
+   * Optional lookup of the chunks of a source (by unique_source), used to
+   * expand hits with their neighbouring chunks. `chunkIds` limits the
+   * lookup to those chunks; missing ones are left out.
+   */
+  getSourceChunks?(
+    uniqueSource: string,
+    options?: { chunkIds?: string[]; abortSignal?: AbortSignal }
+  ): Promise<VectorizeDocument[]>;
+}
+
+/**
+ * A chunk to be written to a store: the snake_case metadata VectorizeDocument
+ * models, without scores or embeddings.
+ */
+export interface ChunkRecord {
+  id: string;
+  text: string;
+  source: string;
+  source_display_name: string;
+  chunk_id: string;
+  total_chunks: string;
+  origin_id: string;
+  unique_source: string;
+}
+
+/**
+ * A store the app can write to directly. Vectorize pipelines are filled by
+ * their own connectors, so only self-hosted stores implement this.
+ */
+export interface WritableVectorStore extends VectorStore {
+  /**
+   * Atomically replace every chunk of `source` with `chunks`.
+   */
+  replaceSourceChunks(
+    source: string,
+    chunks: ChunkRecord[]
+  ): Promise<void>;
+  /**
+   * Content hash (origin_id) of the chunks currently stored for `source`,
+   * or null when the source has not been ingested.
+   */
+  getSourceOriginId(source: string): Promise<string | null>;
+  deleteBySource(source: string): Promise<number>;
+}
+
+export function isWritableVectorStore(
+  store: VectorStore
+): store is WritableVectorStore {
+  return (
+    typeof (store as WritableVectorStore).replaceSourceChunks === "function"
+  );
+}
+
+export type VectorStoreProvider = "vectorize" | "local";
+
+export function getVectorStoreProvider(): VectorStoreProvider {
+  const provider = (process.env.VECTOR_STORE || "vectorize").toLowerCase();
+  if (provider !== "vectorize" && provider !== "local") {
+    throw new Error(
+      `Unknown VECTOR_STORE "${provider}". Expected "vectorize" or "local".`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Create the vector store selected by the VECTOR_STORE environment variable.
+ * Defaults to the hosted Vectorize pipeline.
+ */
+export function createVectorStore(): VectorStore {
+  switch (getVectorStoreProvider()) {
+    case "local":
+      return new LocalVectorStore();
+    case "vectorize":
+    default:
+      return new VectorizeService();
+  }
+}
@@ -1,8 +1,19 @@
-import { Configuration, PipelinesApi } from "@vectorize-io/vectorize-client";
-import type { VectorizeDocument, VectorizeResponse } from "@/types/vectorize";
-import type { ChatSource } from "@/types/chat";
+import {
+  Configuration,
+  PipelinesApi,
+  type RetrieveDocumentsRequest,
+} from "@vectorize-io/vectorize-client";
+import type { VectorStore } from "@/lib/vector-store";
+import { RetrievalError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { withSpan } from "@/lib/tracing";
+import { countServiceCall } from "@/lib/usage-meter";
+import type { VectorizeDocument } from "@/types/vectorize";
 
-export class VectorizeService {
+// Most chunks fetched when a whole source is looked up
+const MAX_SOURCE_CHUNKS = 100;
+
+export class VectorizeService implements VectorStore {
   private pipelinesApi: any;
   private organizationId: string;
   private pipelineId: string;
@@ -20,79 +31,100 @@ export class VectorizeService {
 
   async retrieveDocuments(
     question: string,
-    numResults: number = 10
+    numResults: number = 10,
+    { abortSignal }: { abortSignal?: AbortSignal } = {}
   ): Promise<VectorizeDocument[]> {
-    try {
-      const response = await this.pipelinesApi.retrieveDocuments({
-        organization: this.organizationId,
-        pipeline: this.pipelineId,
-        retrieveDocumentsRequest: {
-          question,
-          numResults,
+    return withSpan(
+      "vectorize.retrieve",
+      async (span) => {
+        const documents = await this.retrieve({ question, numResults }, abortSignal);
+        span.setAttribute("retrieval.documents", documents.length);
+        return documents;
+      },
+      {
+        kind: "client",
+        attributes: {
+          "vectorize.pipeline_id": this.pipelineId,
+          "retrieval.num_results": numResults,
         },
-      });
-
-      return response.documents || [];
-    } catch (error: any) {
-      console.error("Vectorize API Error:", error?.response);
-      if (error?.response?.text) {
-        console.error("Error details:", await error.response.text());
       }
-      throw new Error("Failed to retrieve documents from Vectorize");
-    }
-  }
-
-  formatDocumentsForContext(documents: VectorizeDocument[]): string {
-    if (!documents.length) {
-      return "No relevant documents found.";
-    }
-
-    // Sort documents by relevancy/similarity score
-    const sortedDocs = [...documents].sort((a, b) => 
-      (b.relevancy || b.similarity || 0) - (a.relevancy || a.similarity || 0)
     );
+  }
 
-    // Remove duplicate content and format documents with clear section breaks
-    const seenContent = new Set<string>();
-    const uniqueDocs: Array<VectorizeDocument & { text: string }> = [];
-
-    for (const doc of sortedDocs) {
-      // Clean up the text while preserving important content
-      const cleanText = doc.text
-        .replace(/\s+/g, ' ')  // Normalize whitespace
-        .trim();
-
-      // Create a normalized version for duplicate detection
-      const normalizedText = cleanText.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ');
-      
-      // Only include if we haven't seen this exact content before
-      if (!seenContent.has(normalizedText)) {
-        seenContent.add(normalizedText);
-        uniqueDocs.push({
-          ...doc,
-          text: cleanText
-        });
+  /**
+   * Chunks of one source, selected with metadata filters on unique_source
+   * and chunk_id rather than by similarity. Without `chunkIds` up to
+   * MAX_SOURCE_CHUNKS chunks are returned.
+   */
+  async getSourceChunks(
+    uniqueSource: string,
+    { chunkIds, abortSignal }: { chunkIds?: string[]; abortSignal?: AbortSignal } = {}
+  ): Promise<VectorizeDocument[]> {
+    if (chunkIds && !chunkIds.length) return [];
+    return withSpan(
+      "vectorize.source_chunks",
+      async (span) => {
+        const documents = await this.retrieve(
+          {
+            // The API requires a question; the filters decide what matches
+            question: uniqueSource,
+            numResults: chunkIds?.length ?? MAX_SOURCE_CHUNKS,
+            metadataFilters: [
+              { "metadata.unique_source": [uniqueSource] },
+              ...(chunkIds ? [{ "metadata.chunk_id": chunkIds }] : []),
+            ],
+          },
+          abortSignal
+        );
+        // Filters are applied by the pipeline; keep only exact matches in case
+        // a pipeline ignores them
+        const matching = documents.filter(
+          (doc) =>
+            (doc.unique_source || doc.source) === uniqueSource &&
+            (!chunkIds || chunkIds.includes(String(doc.chunk_id)))
+        );
+        span.setAttribute("retrieval.documents", matching.length);
+        return matching;
+      },
+      {
+        kind: "client",
+        attributes: {
+          "vectorize.pipeline_id": this.pipelineId,
+          "retrieval.source": uniqueSource,
+        },
       }
-    }
-
-    // Format documents with clear section breaks and preserve all content
-    return uniqueDocs
-      .map((doc, index) => {
-        return `Document ${index + 1} (${Math.round((doc.relevancy || doc.similarity || 0) * 100)}% relevant):\n${doc.text}`;
-      })
-      .join('\n\n==========\n\n');
+    );
   }
 
-
-
-  convertDocumentsToChatSources(documents: VectorizeDocument[]): ChatSource[] {
-    return documents.map((doc) => ({
-      id: doc.id,
-      title: doc.source_display_name || doc.source,
-      url: doc.source,
-      snippet: doc.text, // Full text content for hover display
-      relevancy: doc.relevancy,
-      similarity: doc.similarity,
-    }));
+  private async retrieve(
+    retrieveDocumentsRequest: RetrieveDocumentsRequest,
+    abortSignal?: AbortSignal
+  ): Promise<VectorizeDocument[]> {
+    countServiceCall("vectorize");
+    try {
+      const response = await this.pipelinesApi.retrieveDocuments(
+        {
+          organization: this.organizationId,
+          pipeline: this.pipelineId,
+          retrieveDocumentsRequest,
+        },
+        { signal: abortSignal }
+      );
+      return response.documents || [];
+    } catch (error: any) {
+      // A cancelled request is not a Vectorize failure
+      if (abortSignal?.aborted) throw error;
+      const details = error?.response?.text
+        ? await error.response.text()
+        : undefined;
+      logger.error("Vectorize API error", {
+        status: error?.response?.status,
+        details,
+        error,
+      });
+      throw new RetrievalError("Failed to retrieve documents from Vectorize", {
+        cause: error,
+      });
+    }
   }
 }
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Prompt templates are read from disk at request time
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./prompts/**/*"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,51 @@
+// A country's travel advisory, extracted from retrieved U.S. State Department
+// advisory documents (lib/advisories.ts)
+
+export type AdvisoryLevel = 1 | 2 | 3 | 4;
+
+export type AdvisoryCategory =
+  | "crime"
+  | "terrorism"
+  | "civil_unrest"
+  | "health"
+  | "kidnapping"
+  | "natural_disaster";
+
+// Retrieved chunk the advisory was extracted from
+export interface AdvisoryChunkRef {
+  chunkId: string;
+  title: string;
+  url: string;
+  // Number the agent's answer cites this chunk by, when it was in context
+  citation?: number;
+}
+
+// Sentences of the advisory about one risk category
+export interface AdvisorySection {
+  category: AdvisoryCategory;
+  text: string;
+  chunkIds: string[];
+}
+
+// Area of the country with its own level, e.g. "Do not travel to: ..."
+export interface RegionalWarning {
+  region: string;
+  level: AdvisoryLevel;
+  reason: string | null;
+  chunkId: string;
+}
+
+export interface TravelAdvisory {
+  country: string;
+  // ISO 3166-1 alpha-2 code; null when the advisory is for a destination
+  // that is not a country
+  countryCode: string | null;
+  // Country-wide level; null if no retrieved chunk states one
+  level: AdvisoryLevel | null;
+  levelLabel: string | null;
+  // Issue or last-updated date as YYYY-MM-DD, when the documents give one
+  updatedAt: string | null;
+  sections: AdvisorySection[];
+  regions: RegionalWarning[];
+  sources: AdvisoryChunkRef[];
+}
@@ -0,0 +1,139 @@
+// Results of the GoAware agent's tools (/api/agent). They are sent to the
+// model as JSON and rendered as cards from the message's tool invocations.
+
+import type { TravelAdvisory } from "@/types/advisory";
+import type { Itinerary } from "@/types/itinerary";
+
+export type TravelAdvisoryResult =
+  | {
+      status: "found";
+      country: string;
+      advisory: TravelAdvisory;
+      // Numbered context documents, e.g. "[1] ...", for the answer's citations
+      documents: string;
+    }
+  | {
+      status: "not_found";
+      country: string;
+      message: string;
+      // Countries the name may have meant (lib/countries.ts)
+      suggestions: string[];
+    }
+  | {
+      status: "error";
+      country: string;
+      message: string;
+    };
+
+export interface CityWeather {
+  city: string;
+  // Degrees Celsius
+  temperature: number;
+  condition: string;
+  // Relative humidity in percent
+  humidity: number;
+  // km/h
+  windSpeed: number;
+  // WMO weather code
+  icon?: string;
+}
+
+// One day of a city's forecast (Open-Meteo daily forecast)
+export interface DailyForecast {
+  // YYYY-MM-DD
+  date: string;
+  // Degrees Celsius
+  temperatureMax: number;
+  temperatureMin: number;
+  condition: string;
+  // Highest chance of precipitation during the day, in percent
+  precipitationProbability: number | null;
+  // WMO weather code
+  icon?: string;
+}
+
+export interface CityForecast {
+  city: string;
+  // Only the requested days within the forecast range; empty when the dates
+  // are too far ahead or already past
+  days: DailyForecast[];
+}
+
+export type CountryWeatherResult =
+  | {
+      status: "ok";
+      country: string;
+      cities: CityWeather[];
+    }
+  | {
+      status: "not_found";
+      country: string;
+      message: string;
+      suggestions: string[];
+    }
+  | {
+      status: "unavailable" | "error";
+      country: string;
+      message: string;
+    };
+
+// One country's column in a comparison (compareCountries)
+export interface CountryComparison {
+  // Common name, or the name as given when it is not a known country
+  country: string;
+  countryCode: string | null;
+  // null when no advisory documents were found
+  advisory: TravelAdvisory | null;
+  // null when the country is unknown or its weather is unavailable
+  weather: CityWeather[] | null;
+  // Why the advisory or weather is missing
+  notes: string[];
+  // Countries an unknown name may have meant
+  suggestions: string[];
+}
+
+export type CountryComparisonResult =
+  | {
+      status: "ok";
+      countries: CountryComparison[];
+      // Numbered context documents of every country, for the answer's citations
+      documents: string;
+    }
+  | {
+      status: "error";
+      message: string;
+    };
+
+export type WeatherForecastResult =
+  | {
+      status: "ok";
+      country: string;
+      startDate: string;
+      endDate: string;
+      forecast: CityForecast;
+      // Set when some of the requested days are outside the forecast range
+      message?: string;
+    }
+  | {
+      status: "not_found";
+      country: string;
+      message: string;
+      suggestions: string[];
+    }
+  | {
+      status: "unavailable" | "error";
+      country: string;
+      message: string;
+    };
+
+export type ItineraryResult =
+  | {
+      status: "ok";
+      itinerary: Itinerary;
+      // Numbered context documents of every leg, for the answer's citations
+      documents: string;
+    }
+  | {
+      status: "error";
+      message: string;
+    };
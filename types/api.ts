@@ -0,0 +1,31 @@
+export type ApiErrorCode =
+  | "validation_error"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "retrieval_error"
+  | "llm_error"
+  | "weather_error"
+  | "cancelled"
+  | "internal_error";
+
+// One invalid field of a request, e.g. { path: "messages.0.content", ... }
+export interface ApiErrorDetail {
+  path: string;
+  message: string;
+}
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  // Also sent as the X-Request-Id header; quote it when reporting a problem
+  requestId: string;
+  details?: ApiErrorDetail[];
+}
+
+// Body of every API error response, and of errors sent mid-stream
+export interface ApiErrorResponse {
+  error: ApiError;
+}
@@ -0,0 +1,36 @@
+// Per-key limits; unset fields fall back to the RATE_LIMIT_* / DAILY_* env defaults
+export interface ApiKeyLimits {
+  /** Sustained request rate (token bucket refill) */
+  requestsPerMinute?: number;
+  /** Requests allowed in a burst (token bucket capacity) */
+  burst?: number;
+  /** Requests per UTC day */
+  dailyRequests?: number;
+  /** Model tokens per UTC day */
+  dailyTokens?: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  /** First characters of the key, to recognise it in listings */
+  prefix: string;
+  /** SHA-256 of the key; the key itself is only shown when it is issued */
+  hash: string;
+  createdAt: string;
+  revokedAt?: string;
+  limits?: ApiKeyLimits;
+}
+
+// What the admin API returns for a key
+export type ApiKeySummary = Omit<ApiKeyRecord, "hash">;
+
+/** The caller a request is made on behalf of. */
+export interface Principal {
+  /** Rate limit and quota bucket, e.g. "key:<id>" or "ip:<address>" */
+  id: string;
+  /** Set when authenticated with an API key or a session for one */
+  keyId?: string;
+  via: "api-key" | "session" | "anonymous";
+  limits: Required<ApiKeyLimits>;
+}
@@ -1,3 +1,5 @@
+export type RetrieverName = "vector" | "keyword";
+
 export interface ChatSource {
   id: string;
   title: string;
@@ -5,6 +7,33 @@ export interface ChatSource {
   snippet: string;
   relevancy?: number;
   similarity?: number;
+  // Which retrievers returned this source and its reciprocal rank fusion score
+  retrievers?: RetrieverName[];
+  fusedScore?: number;
+  // First-stage score and rank vs. the reranker's score, when reranking ran
+  originalScore?: number;
+  originalRank?: number;
+  rerankScore?: number;
+  // True when only part of the text fit in the context budget
+  truncated?: boolean;
+  // Number the model cites this document by, e.g. [3]
+  citation?: number;
+  // Chunk ids merged into this passage by neighbour expansion
+  expandedChunkIds?: string[];
+}
+
+// Prompt template that produced an answer
+export interface PromptRef {
+  id: string;
+  version: number;
+}
+
+// Agent tool call and its JSON result, kept so its card can be shown again
+export interface StoredToolInvocation {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  result: unknown;
 }
 
 export interface ChatMessageWithSources {
@@ -12,5 +41,143 @@ export interface ChatMessageWithSources {
   role: "user" | "assistant";
   content: string;
   sources?: ChatSource[];
+  prompt?: PromptRef;
+  // Query retrieval searched with and model that answered, for feedback
+  rewrittenQuery?: string;
+  model?: string;
+  toolInvocations?: StoredToolInvocation[];
   createdAt: string | Date;
 }
+
+// Which chat interface a conversation belongs to
+export type ConversationKind = "chat" | "agent" | "agents-sdk";
+
+export interface ConversationSummary {
+  id: string;
+  kind: ConversationKind;
+  title: string;
+  // Principal id of the API key that created it; unset when API_AUTH is off
+  ownerId?: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// Key entities tracked across a conversation
+export interface MemoryEntities {
+  // Country the user is currently asking about
+  country: string | null;
+  // Every country mentioned so far, most recent last
+  countries: string[];
+  topics: string[];
+}
+
+// Rolling memory of the turns that no longer fit in the recent window
+export interface ConversationMemory {
+  summary: string;
+  // Number of leading messages folded into the summary
+  summarizedCount: number;
+  entities: MemoryEntities;
+}
+
+export interface Conversation extends Omit<ConversationSummary, "messageCount"> {
+  messages: ChatMessageWithSources[];
+  memory?: ConversationMemory;
+}
+
+// Message annotation streamed by /api/chat ahead of the answer text
+export interface SourcesAnnotation {
+  type: "sources";
+  sources: ChatSource[];
+  omittedSources: ChatSource[];
+  rewrittenQuery?: string;
+  searchQueries?: string[];
+}
+
+export type ClaimSupport = "supported" | "partial" | "unsupported";
+
+// Passage of a source that backs a claim; offsets index into source.snippet,
+// or into the text of tool evidence, which has no citation
+export interface EvidenceSpan {
+  citation?: number;
+  sourceId: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface GroundedClaim {
+  // Sentence of the answer the claim was taken from, verbatim
+  sentence: string;
+  claim: string;
+  support: ClaimSupport;
+  evidence: EvidenceSpan[];
+}
+
+// Message annotation with the result of the post-generation grounding check
+export interface GroundingAnnotation {
+  type: "grounding";
+  status: "checking" | "done" | "failed";
+  claims: GroundedClaim[];
+  unsupportedCount: number;
+}
+
+// Message annotation describing how an answer was produced, sent once the
+// answer has finished streaming
+export interface AnswerMetadataAnnotation {
+  type: "answer-metadata";
+  query: string;
+  rewrittenQuery?: string;
+  prompt: PromptRef;
+  model: string;
+  // Id the answer was saved under in its conversation; feedback refers to it
+  messageId?: string;
+}
+
+// Every annotation the chat endpoints attach to an answer
+export type MessageAnnotation =
+  | SourcesAnnotation
+  | GroundingAnnotation
+  | AnswerMetadataAnnotation;
+
+export type FeedbackRating = "up" | "down";
+
+// Retrieved source as recorded with feedback: its id and scores
+export interface FeedbackSource {
+  id: string;
+  title: string;
+  url: string;
+  citation?: number;
+  relevancy?: number;
+  similarity?: number;
+  fusedScore?: number;
+  rerankScore?: number;
+}
+
+// Rating sent by the UI. The rest of the record is read from the saved
+// answer, so clients cannot put arbitrary text into the feedback export.
+export interface FeedbackRequest {
+  rating: FeedbackRating;
+  comment?: string;
+  conversationId: string;
+  messageId: string;
+}
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  comment?: string;
+  kind: ConversationKind;
+  conversationId?: string;
+  messageId: string;
+  query: string;
+  rewrittenQuery?: string;
+  answer: string;
+  sources: FeedbackSource[];
+  prompt?: PromptRef;
+  model?: string;
+}
+
+export interface FeedbackRecord extends FeedbackInput {
+  id: string;
+  createdAt: string;
+}
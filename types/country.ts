@@ -0,0 +1,27 @@
+// A country from the bundled ISO 3166-1 dataset (lib/country-data.ts)
+export interface Country {
+  // ISO 3166-1 alpha-2 code, e.g. "CI"
+  alpha2: string;
+  // ISO 3166-1 alpha-3 code, e.g. "CIV"
+  alpha3: string;
+  // Common English name, e.g. "Côte d'Ivoire"
+  name: string;
+  // Formal name, e.g. "Republic of Côte d'Ivoire"
+  officialName: string;
+  // Other names, abbreviations and former names, e.g. "Ivory Coast"
+  aliases: string[];
+  // e.g. "Ivorian"
+  demonyms: string[];
+}
+
+// How a free-text country name was resolved
+export interface CountryResolution {
+  query: string;
+  // The country the query names, or null if it is unknown or ambiguous
+  country: Country | null;
+  // True when the query matched a name, code or alias exactly (ignoring
+  // case, accents and punctuation) rather than by fuzzy matching
+  exact: boolean;
+  // "Did you mean" candidates when there is no confident match
+  suggestions: Country[];
+}
@@ -0,0 +1,47 @@
+// A multi-leg trip and its risk report, built by the GoAware agent's planTrip
+// tool (lib/itinerary.ts)
+
+import type { AdvisoryLevel, RegionalWarning, TravelAdvisory } from "@/types/advisory";
+import type { CityForecast } from "@/types/agent";
+
+// One stop of a trip as the traveler gave it
+export interface TripLeg {
+  // Country, or a destination that is not one
+  destination: string;
+  // City to forecast; the country's main city when not given
+  city?: string;
+  // YYYY-MM-DD, inclusive
+  startDate: string;
+  endDate: string;
+}
+
+export interface ItineraryLeg {
+  destination: string;
+  // Common name, or the destination as given when it is not a known country
+  country: string;
+  countryCode: string | null;
+  startDate: string;
+  endDate: string;
+  nights: number;
+  // null when no advisory documents were found
+  advisory: TravelAdvisory | null;
+  // The advisory's Level 3 and 4 regional warnings
+  regionWarnings: RegionalWarning[];
+  // null when the forecast could not be fetched
+  forecast: CityForecast | null;
+  // Why the advisory or forecast is missing or incomplete
+  notes: string[];
+  // Countries an unknown destination may have meant
+  suggestions: string[];
+}
+
+export interface Itinerary {
+  // First and last day of the trip, YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  legs: ItineraryLeg[];
+  // Highest country-wide advisory level of any leg
+  highestLevel: AdvisoryLevel | null;
+  // Problems with the plan itself, e.g. overlapping legs or past dates
+  warnings: string[];
+}
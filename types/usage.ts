@@ -0,0 +1,55 @@
+// Routes whose model and service usage is metered
+export type UsageRoute = "chat" | "agent" | "agents-sdk";
+
+// Metered external services other than the language model
+export type MeteredService = "vectorize" | "weather";
+
+/** One model call: a step of an agent's tool loop, a query rewrite, ... */
+export interface ModelCallUsage {
+  /** "provider:modelId" of the model that answered */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** USD; null when the model has no entry in the price table */
+  costUsd: number | null;
+}
+
+/** Everything one request used, written when its response finishes. */
+export interface UsageRecord {
+  id: string;
+  requestId: string;
+  createdAt: string;
+  route: UsageRoute;
+  /** Rate limit bucket of the caller, e.g. "key:<id>" or "ip:<address>" */
+  principalId: string;
+  /** API key the request was made with, if any */
+  keyId?: string;
+  modelCalls: ModelCallUsage[];
+  promptTokens: number;
+  completionTokens: number;
+  /** Sum over the priced model calls */
+  costUsd: number;
+  serviceCalls: Record<MeteredService, number>;
+}
+
+/** Usage totals for one day, route and API key. */
+export interface UsageSummaryGroup {
+  /** UTC day, e.g. "2025-06-01" */
+  day: string;
+  route: UsageRoute;
+  /** null for requests made without an API key */
+  keyId: string | null;
+  requests: number;
+  modelCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  /** Model calls whose cost is unknown because the model has no price */
+  unpricedModelCalls: number;
+  serviceCalls: Record<MeteredService, number>;
+}
+
+export interface UsageSummary {
+  groups: UsageSummaryGroup[];
+  totals: Omit<UsageSummaryGroup, "day" | "route" | "keyId">;
+}
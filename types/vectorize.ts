@@ -1,3 +1,5 @@
+import type { RetrieverName } from "@/types/chat";
+
 export interface VectorizeDocument {
   chunk_id: string;
   id: string;
@@ -22,6 +24,25 @@ export interface VectorizeDocument {
   orgId: string;
 }
 
+// A document after hybrid retrieval, annotated with how it was found
+export interface RetrievedDocument extends VectorizeDocument {
+  retrievers?: RetrieverName[];
+  fusedScore?: number;
+  keywordScore?: number;
+  // Set when a reranker rescored the document
+  originalScore?: number;
+  originalRank?: number;
+  rerankScore?: number;
+  // True when only part of the text fit in the context budget
+  truncated?: boolean;
+  // Number the model cites this document by, e.g. [3]
+  citation?: number;
+  // Set when neighbouring chunks were merged in: the chunk ids now covered
+  // and the text of the chunk that was actually retrieved
+  expandedChunkIds?: string[];
+  hitText?: string;
+}
+
 export interface VectorizeResponse {
   question: string;
   documents: VectorizeDocument[];